@@ -1,64 +1,411 @@
-import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo, useDeferredValue } from 'react';
 import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
-import { getRoleInstruction, GEMINI_MODEL } from './constants';
-import { TranscriptEntry } from './types';
-import { encodeAudio, decodeAudio, decodeAudioData, downsample } from './services/audioService';
+import { getRoleInstruction, getRoleSwitchNotice, getTypedTurnPrompt, getVoiceName, DEFAULT_LANGUAGE_PAIRS, GEMINI_MODEL } from './constants';
+import { TranscriptEntry, EntryRevision, RoleMode, SpeakerRole, LectureSession, SessionDetails, CourseGlossary, GlossaryTerm, VadSettings, RelayRoom, LanguagePairs, UsageSettings, UsageTotals, PlaybackSettings, InputSettings, InputHealth, TalkMode, ShortcutAction, ShortcutBindings, RomanizationSettings } from './types';
+import { decodeAudio, decodeAudioData } from './services/audioService';
+import { AudioCapture, PcmFrame, startAudioCapture } from './services/audioCapture';
+import { detectScriptLanguage, entryTargetLang, pairLanguages } from './services/languageService';
+import { createSession, createSessionId, deleteSession, listSessions, migrateLegacyHistory, saveSession } from './services/historyStore';
+import { downloadBlob, parseSessionImport } from './services/exportService';
+import { findGlossaryIssues, formatGlossaryPrompt, getGlossary, saveGlossary } from './services/glossaryService';
+import { createLiveConnection, LiveConnection, ReconnectInfo } from './services/liveConnection';
+import { createPushToTalk, createVoiceActivityGate, DEFAULT_VAD_SETTINGS, PushToTalk, VoiceActivityGate } from './services/voiceActivity';
+import { comboFromEvent, comboKey, DEFAULT_SHORTCUTS, findShortcut, formatCombo, isEditableTarget } from './services/shortcuts';
+import { AudioOutput, createAudioOutput, DEFAULT_PLAYBACK_SETTINGS } from './services/audioOutput';
+import { isOnline, watchOnline } from './services/offline';
+import { createQualityQueue, QualityQueue } from './services/qualityCheck';
+import { hasRomanization } from './services/romanization';
+import { createLiveCapture, createReplayConnector, LiveCapture, LiveCaptureRecorder, parseLiveCapture, serializeLiveCapture } from './services/liveReplay';
+import { createInputMonitor, DEFAULT_INPUT_SETTINGS, InputMonitor, inputConstraints, processingConstraints } from './services/audioInput';
+import { createTurnRecorder, deleteSessionRecordings, getRecording, playRecording, RecordingTrack, saveRecording, TRANSLATION_SAMPLE_RATE, TurnRecorder } from './services/recordingService';
+import { addUsage, budgetLevel, BudgetLevel, createUsageMeter, DEFAULT_USAGE_SETTINGS, EMPTY_USAGE, estimateCost, pcmDurationMs, UsageMeter } from './services/usageService';
+import { CaptionPublisher, createCaptionPublisher } from './services/captionChannel';
+import { createGeminiTextModel, TextModel } from './services/textModel';
+import { createGeminiSpeechModel, SpeechModel } from './services/speechModel';
+import { translateTypedText, typedTextRole } from './services/typedInput';
+import { summarizeSession } from './services/summaryService';
+import { EntryChanges, retranslateEntry, reviseEntry } from './services/revisionService';
+import { EMPTY_FILTERS, filterTranscript, hasActiveFilters, searchHits, TranscriptFilters } from './services/transcriptSearch';
+import { segmentAudioRange } from './services/segmentService';
+import { addTranscription, buildTurnEntry, emptyTurn, LiveTurn } from './services/liveTranscript';
+import { closeRelayRoom, createRelayPublisher, openRelayRoom, RelayPublisher } from './services/classroomRelay';
 import AudioVisualizer from './components/AudioVisualizer';
+import SessionBrowser from './components/SessionBrowser';
+import ExportDialog from './components/ExportDialog';
+import GlossaryEditor from './components/GlossaryEditor';
+import VoiceActivityPanel from './components/VoiceActivityPanel';
+import MicrophonePanel from './components/MicrophonePanel';
+import ReplayPanel from './components/ReplayPanel';
+import TalkControls from './components/TalkControls';
+import ShortcutHelp from './components/ShortcutHelp';
+import AudioOutputPanel from './components/AudioOutputPanel';
+import BroadcastPanel from './components/BroadcastPanel';
+import LanguagePairsPanel from './components/LanguagePairsPanel';
+import SummaryPanel from './components/SummaryPanel';
+import UsagePanel from './components/UsagePanel';
+import TranscriptBubble from './components/TranscriptBubble';
+import RubyText from './components/RubyText';
+import TranscriptSearchBar from './components/TranscriptSearchBar';
+import TypedInputBar from './components/TypedInputBar';
+import VirtualList from './components/VirtualList';
+import UiLanguageSwitcher from './components/UiLanguageSwitcher';
+import { useI18n } from './components/I18nProvider';
 
 type AccentColor = 'blue' | 'emerald' | 'purple' | 'amber';
 type VoiceGender = 'Male' | 'Female';
-type UserRole = 'Professor' | 'Student';
+
+const ROLE_MODE_ICONS: Record<RoleMode, string> = {
+  Auto: 'fa-wand-magic-sparkles',
+  Professor: 'fa-user-tie',
+  Student: 'fa-user-graduate',
+};
+
+const entryKey = (entry: TranscriptEntry) => entry.id;
+
+// Finished turns sent along with the live captions to audience windows.
+const AUDIENCE_RECENT_ENTRIES = 5;
+// How often metered usage is written to the session while live.
+const USAGE_FLUSH_MS = 5000;
 
 const App: React.FC = () => {
+  const { t, dateTime } = useI18n();
   const [isRecording, setIsRecording] = useState(false);
-  const [transcripts, setTranscripts] = useState<TranscriptEntry[]>(() => {
+  const [transcripts, setTranscripts] = useState<TranscriptEntry[]>([]);
+  const [sessions, setSessions] = useState<LectureSession[]>([]);
+  const [activeSession, setActiveSession] = useState<LectureSession | null>(null);
+  const [showSessionBrowser, setShowSessionBrowser] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false);
+  const [showBroadcastPanel, setShowBroadcastPanel] = useState(false);
+  const [showSummaryPanel, setShowSummaryPanel] = useState(false);
+  const [summarizing, setSummarizing] = useState(false);
+  const [showUsagePanel, setShowUsagePanel] = useState(false);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(() => {
     try {
-      const saved = localStorage.getItem('edutranslate_history');
-      return saved ? JSON.parse(saved) : [];
-    } catch (e) { return []; }
+      const saved = localStorage.getItem('edutranslate_usage_settings');
+      return saved ? { ...DEFAULT_USAGE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_USAGE_SETTINGS;
+    } catch (e) { return DEFAULT_USAGE_SETTINGS; }
   });
-  const [status, setStatus] = useState<'idle' | 'connecting' | 'listening' | 'error'>('idle');
+  const [usageTotals, setUsageTotals] = useState<UsageTotals>(() => {
+    try {
+      const saved = localStorage.getItem('edutranslate_usage_totals');
+      return saved ? { ...EMPTY_USAGE, since: Date.now(), ...JSON.parse(saved) } : { ...EMPTY_USAGE, since: Date.now() };
+    } catch (e) { return { ...EMPTY_USAGE, since: Date.now() }; }
+  });
+  const [broadcastRoom, setBroadcastRoom] = useState<RelayRoom | null>(null);
+  const [broadcastListeners, setBroadcastListeners] = useState(0);
+  const [broadcastBusy, setBroadcastBusy] = useState(false);
+  const [glossary, setGlossary] = useState<CourseGlossary>({ courseCode: '', terms: [], updatedAt: 0 });
+  const [showGlossaryEditor, setShowGlossaryEditor] = useState(false);
+  const [status, setStatus] = useState<'idle' | 'connecting' | 'listening' | 'reconnecting' | 'error'>('idle');
+  const [reconnectInfo, setReconnectInfo] = useState<ReconnectInfo | null>(null);
+  const [clock, setClock] = useState(() => Date.now());
   const [errorMessage, setErrorMessage] = useState('');
   const [theme, setTheme] = useState<'light' | 'dark'>(() => (localStorage.getItem('edutranslate_theme') as 'light' | 'dark') || 'light');
   const [accentColor, setAccentColor] = useState<AccentColor>(() => (localStorage.getItem('edutranslate_accent') as AccentColor) || 'blue');
   const [voiceGender, setVoiceGender] = useState<VoiceGender>(() => (localStorage.getItem('edutranslate_voice_gender') as VoiceGender) || 'Female');
-  const [activeRole, setActiveRole] = useState<UserRole>(() => (localStorage.getItem('edutranslate_active_role') as UserRole) || 'Professor');
+  const [activeRole, setActiveRole] = useState<RoleMode>(() => (localStorage.getItem('edutranslate_active_role') as RoleMode) || 'Professor');
+  const [detectedRole, setDetectedRole] = useState<SpeakerRole>('Professor');
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [vadSettings, setVadSettings] = useState<VadSettings>(() => {
+    try {
+      const saved = localStorage.getItem('edutranslate_vad');
+      return saved ? { ...DEFAULT_VAD_SETTINGS, ...JSON.parse(saved) } : DEFAULT_VAD_SETTINGS;
+    } catch (e) { return DEFAULT_VAD_SETTINGS; }
+  });
+  const [languagePairs, setLanguagePairs] = useState<LanguagePairs>(() => {
+    try {
+      const saved = localStorage.getItem('edutranslate_language_pairs');
+      return saved ? { ...DEFAULT_LANGUAGE_PAIRS, ...JSON.parse(saved) } : DEFAULT_LANGUAGE_PAIRS;
+    } catch (e) { return DEFAULT_LANGUAGE_PAIRS; }
+  });
+  const [playbackSettings, setPlaybackSettings] = useState<PlaybackSettings>(() => {
+    try {
+      const saved = localStorage.getItem('edutranslate_playback');
+      return saved ? { ...DEFAULT_PLAYBACK_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PLAYBACK_SETTINGS;
+    } catch (e) { return DEFAULT_PLAYBACK_SETTINGS; }
+  });
+  const [translationPlaying, setTranslationPlaying] = useState(false);
+  const [inputSettings, setInputSettings] = useState<InputSettings>(() => {
+    try {
+      const saved = localStorage.getItem('edutranslate_input');
+      return saved ? { ...DEFAULT_INPUT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_INPUT_SETTINGS;
+    } catch (e) { return DEFAULT_INPUT_SETTINGS; }
+  });
+  const [inputHealth, setInputHealth] = useState<InputHealth>('ok');
+  const [captureStream, setCaptureStream] = useState(() => localStorage.getItem('edutranslate_capture_stream') === 'true');
+  const [lastCapture, setLastCapture] = useState<LiveCapture | null>(null);
+  // Speed of the capture being replayed in place of a Live connection, or null when live.
+  const [replaySpeed, setReplaySpeed] = useState<number | null>(null);
+  const [talkMode, setTalkMode] = useState<TalkMode>(() => localStorage.getItem('edutranslate_talk_mode') === 'pushToTalk' ? 'pushToTalk' : 'continuous');
+  const [inputPaused, setInputPaused] = useState(false);
+  const [online, setOnline] = useState(isOnline);
+  const [checkQuality, setCheckQuality] = useState(() => localStorage.getItem('edutranslate_check_quality') === 'true');
+  const [romanization, setRomanization] = useState<RomanizationSettings>(() => {
+    try {
+      const saved = localStorage.getItem('edutranslate_romanization');
+      return saved ? { source: false, translation: false, ...JSON.parse(saved) } : { source: false, translation: false };
+    } catch (e) { return { source: false, translation: false }; }
+  });
+  const [shortcuts, setShortcuts] = useState<ShortcutBindings>(() => {
+    try {
+      const saved = localStorage.getItem('edutranslate_shortcuts');
+      return saved ? { ...DEFAULT_SHORTCUTS, ...JSON.parse(saved) } : DEFAULT_SHORTCUTS;
+    } catch (e) { return DEFAULT_SHORTCUTS; }
+  });
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [recordAudio, setRecordAudio] = useState(() => localStorage.getItem('edutranslate_record_audio') === 'true');
+  const [speakTyped, setSpeakTyped] = useState(() => localStorage.getItem('edutranslate_speak_typed') !== 'false');
+  const [playingAudio, setPlayingAudio] = useState<{ entryId: string; track: RecordingTrack; segment?: number } | null>(null);
   
+  const [filters, setFilters] = useState<TranscriptFilters>(EMPTY_FILTERS);
+  const [hitIndex, setHitIndex] = useState(-1);
+  const [flash, setFlash] = useState<{ id: string; segment?: number } | null>(null);
+  const [jumpTo, setJumpTo] = useState<{ index: number; token: number } | null>(null);
+
   const [currentInput, setCurrentInput] = useState('');
   const [currentOutput, setCurrentOutput] = useState('');
 
   // Use a single AudioContext for all operations to prevent "Different Audio Context" error
   const mainAudioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
-  const sessionRef = useRef<any>(null);
+  const connectionRef = useRef<LiveConnection | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const inputGainRef = useRef<GainNode | null>(null);
+  const inputMonitorRef = useRef<InputMonitor | null>(null);
+  const liveCaptureRef = useRef<LiveCaptureRecorder | null>(null);
+  const replaySpeedRef = useRef<number | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const vadGateRef = useRef<VoiceActivityGate | null>(null);
+  const pushToTalkRef = useRef<PushToTalk | null>(null);
+  const inputPausedRef = useRef(false);
+  const checkQualityRef = useRef(checkQuality);
+  const qualityQueueRef = useRef<QualityQueue | null>(null);
+  const recorderRef = useRef<TurnRecorder | null>(null);
+  const playbackSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const nextStartTimeRef = useRef(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const audioOutputRef = useRef<AudioOutput | null>(null);
+  // Recordings and typed read-aloud play on their own context, through the same kind of
+  // output stage as the live translation, so volume and output device apply to them too.
+  const playbackRef = useRef<{ ctx: AudioContext; output: AudioOutput } | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const captionPublisherRef = useRef<CaptionPublisher | null>(null);
+  const relayPublisherRef = useRef<RelayPublisher | null>(null);
+  const textModelRef = useRef<TextModel | null>(null);
+  const speechModelRef = useRef<SpeechModel | null>(null);
+  const usageMeterRef = useRef<UsageMeter | null>(null);
+  // Budget level already announced for the running session, so each warning shows once.
+  const budgetNoticeRef = useRef<BudgetLevel>('ok');
 
-  const currentInputRef = useRef('');
-  const currentOutputRef = useRef('');
-  const activeRoleRef = useRef<UserRole>(activeRole);
+  // Transcription of the turn in progress, with chunk arrival times for sentence timing.
+  const liveTurnRef = useRef<LiveTurn>(emptyTurn());
+  // Set while the Live turn in progress answers typed text rather than speech.
+  const typedTurnRef = useRef<{ speak: boolean } | null>(null);
+  const activeRoleRef = useRef<RoleMode>(activeRole);
+  const lastSpeakerRef = useRef<SpeakerRole>('Professor');
+  const activeSessionRef = useRef<LectureSession | null>(null);
+  // Sessions created automatically on Connect cover a single run; the next Connect starts a new one.
+  const autoSessionRef = useRef(false);
+  const startNewRunRef = useRef(false);
+  const glossaryRef = useRef<CourseGlossary>(glossary);
+  const languagePairsRef = useRef<LanguagePairs>(languagePairs);
+  const playbackSettingsRef = useRef<PlaybackSettings>(playbackSettings);
 
   useEffect(() => {
     activeRoleRef.current = activeRole;
     localStorage.setItem('edutranslate_active_role', activeRole);
   }, [activeRole]);
 
-  useEffect(() => { localStorage.setItem('edutranslate_history', JSON.stringify(transcripts)); }, [transcripts]);
+  const openSession = useCallback((session: LectureSession) => {
+    // Checks still queued for the previous session would land on the wrong transcript.
+    if (activeSessionRef.current?.id !== session.id) qualityQueueRef.current?.clear();
+    activeSessionRef.current = session;
+    autoSessionRef.current = false;
+    startNewRunRef.current = false;
+    setActiveSession(session);
+    setTranscripts(session.entries);
+    localStorage.setItem('edutranslate_active_session', session.id);
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const migrated = await migrateLegacyHistory(t('archive.importedHistory'));
+        const list = await listSessions();
+        setSessions(list);
+        const savedId = localStorage.getItem('edutranslate_active_session') || migrated?.id;
+        const restored = list.find(s => s.id === savedId);
+        if (restored) openSession(restored);
+      } catch (e) {
+        console.error('History store error:', e);
+        setErrorMessage(t('error.historyStore'));
+      }
+    })();
+  }, [openSession]);
+
+  useEffect(() => {
+    const session = activeSessionRef.current;
+    if (!session || session.entries === transcripts) return;
+    const updated = { ...session, entries: transcripts, updatedAt: Date.now() };
+    activeSessionRef.current = updated;
+    setActiveSession(updated);
+    setSessions(prev => [updated, ...prev.filter(s => s.id !== updated.id)]);
+    saveSession(updated).catch(e => console.error('Failed to save session:', e));
+  }, [transcripts]);
+
   useEffect(() => {
     localStorage.setItem('edutranslate_theme', theme);
     document.documentElement.classList.toggle('dark', theme === 'dark');
   }, [theme]);
   useEffect(() => { localStorage.setItem('edutranslate_accent', accentColor); }, [accentColor]);
   useEffect(() => { localStorage.setItem('edutranslate_voice_gender', voiceGender); }, [voiceGender]);
+  useEffect(() => { localStorage.setItem('edutranslate_record_audio', String(recordAudio)); }, [recordAudio]);
+  useEffect(() => { localStorage.setItem('edutranslate_capture_stream', String(captureStream)); }, [captureStream]);
+  useEffect(() => { localStorage.setItem('edutranslate_talk_mode', talkMode); }, [talkMode]);
+  useEffect(() => watchOnline(setOnline), []);
+  useEffect(() => {
+    checkQualityRef.current = checkQuality;
+    localStorage.setItem('edutranslate_check_quality', String(checkQuality));
+  }, [checkQuality]);
+  useEffect(() => { localStorage.setItem('edutranslate_shortcuts', JSON.stringify(shortcuts)); }, [shortcuts]);
+  useEffect(() => { localStorage.setItem('edutranslate_romanization', JSON.stringify(romanization)); }, [romanization]);
+  useEffect(() => { localStorage.setItem('edutranslate_speak_typed', String(speakTyped)); }, [speakTyped]);
+  useEffect(() => {
+    languagePairsRef.current = languagePairs;
+    localStorage.setItem('edutranslate_language_pairs', JSON.stringify(languagePairs));
+  }, [languagePairs]);
+  useEffect(() => { localStorage.setItem('edutranslate_usage_settings', JSON.stringify(usageSettings)); }, [usageSettings]);
+  useEffect(() => { localStorage.setItem('edutranslate_usage_totals', JSON.stringify(usageTotals)); }, [usageTotals]);
+  useEffect(() => {
+    localStorage.setItem('edutranslate_vad', JSON.stringify(vadSettings));
+    vadGateRef.current?.update(vadSettings);
+  }, [vadSettings]);
+
+  // Gain and browser processing follow the settings live; the device only on the next start.
+  useEffect(() => {
+    localStorage.setItem('edutranslate_input', JSON.stringify(inputSettings));
+    if (inputGainRef.current) inputGainRef.current.gain.value = inputSettings.gain;
+    const track = streamRef.current?.getAudioTracks()[0];
+    track?.applyConstraints(processingConstraints(inputSettings)).catch(err => {
+      console.error('Applying microphone settings failed:', err);
+      setErrorMessage(t('error.micSettings', { message: err.message || t('common.unknown') }));
+    });
+  }, [inputSettings]);
+
+  // Ticks once a second while reconnecting so the outage duration stays current.
+  useEffect(() => {
+    if (status !== 'reconnecting') return;
+    const timer = setInterval(() => setClock(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  useEffect(() => {
+    const publisher = createCaptionPublisher();
+    captionPublisherRef.current = publisher;
+    return () => { publisher.close(); captionPublisherRef.current = null; };
+  }, []);
+
+  // Audience windows mirror the live captions; they never open a Live session of their own.
+  useEffect(() => {
+    captionPublisherRef.current?.publish({
+      isLive: isRecording,
+      sessionName: activeSession?.name ?? '',
+      currentInput,
+      currentOutput,
+      recent: transcripts.slice(-AUDIENCE_RECENT_ENTRIES),
+    });
+  }, [isRecording, activeSession?.name, currentInput, currentOutput, transcripts]);
+
+  useEffect(() => {
+    if (!broadcastRoom) { relayPublisherRef.current = null; return; }
+    const publisher = createRelayPublisher(broadcastRoom, {
+      onListeners: setBroadcastListeners,
+      onError: e => console.error('Relay publish failed:', e),
+    });
+    relayPublisherRef.current = publisher;
+    return () => publisher.close();
+  }, [broadcastRoom]);
+
+  useEffect(() => {
+    relayPublisherRef.current?.publishLive(isRecording, currentInput, currentOutput);
+  }, [broadcastRoom, isRecording, currentInput, currentOutput]);
+
+  useEffect(() => {
+    relayPublisherRef.current?.syncEntries(activeSession?.name ?? '', transcripts);
+  }, [broadcastRoom, activeSession?.name, transcripts]);
+
+  const startBroadcast = async (serverUrl: string) => {
+    setBroadcastBusy(true);
+    try {
+      setBroadcastListeners(0);
+      setBroadcastRoom(await openRelayRoom(serverUrl));
+    } catch (e) {
+      console.error('Relay unavailable:', e);
+      setErrorMessage(t('error.relayUnavailable'));
+    } finally {
+      setBroadcastBusy(false);
+    }
+  };
+
+  const stopBroadcast = async () => {
+    if (!broadcastRoom) return;
+    setBroadcastBusy(true);
+    try { await closeRelayRoom(broadcastRoom); } catch (e) { console.error('Failed to close relay room:', e); }
+    setBroadcastRoom(null);
+    setBroadcastBusy(false);
+  };
+
+  const openAudienceView = () => {
+    window.open(`${window.location.pathname}?view=audience`, 'edutranslate-audience', 'popup,width=1280,height=720');
+  };
+
+  const searchQuery = useDeferredValue(filters.query);
+  const visibleEntries = useMemo(() => filterTranscript(transcripts, filters), [transcripts, filters]);
+  const flaggedCount = useMemo(() => transcripts.filter(e => e.quality?.flagged).length, [transcripts]);
+  const hits = useMemo(() => searchHits(visibleEntries, searchQuery), [visibleEntries, searchQuery]);
+  const transcriptLanguages = useMemo(() => [...new Set(transcripts.map(e => e.sourceLang))], [transcripts]);
+  const isSearching = !!filters.query.trim() || hasActiveFilters(filters);
+
+  useEffect(() => { setHitIndex(-1); }, [searchQuery, filters.role, filters.sourceLang, filters.from, filters.to]);
+
+  const stepSearchHit = (direction: 1 | -1) => {
+    if (hits.length === 0) return;
+    const next = hitIndex === -1 ? (direction === 1 ? 0 : hits.length - 1) : (hitIndex + direction + hits.length) % hits.length;
+    const { index, segment } = hits[next];
+    setHitIndex(next);
+    setJumpTo({ index, token: Date.now() });
+    setFlash({ id: visibleEntries[index].id, segment });
+  };
+
+  useEffect(() => {
+    if (!flash) return;
+    const timer = setTimeout(() => setFlash(null), 1500);
+    return () => clearTimeout(timer);
+  }, [flash]);
 
+  // Follow new turns, unless the user is browsing search results.
   useEffect(() => {
-    if (scrollRef.current) {
+    if (scrollRef.current && !isSearching) {
       scrollRef.current.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
     }
-  }, [transcripts, currentInput, currentOutput]);
+  }, [transcripts, currentInput, currentOutput, isSearching]);
+
+  const activeCourseCode = activeSession?.courseCode ?? '';
+  useEffect(() => {
+    let cancelled = false;
+    getGlossary(activeCourseCode)
+      .then(g => { if (!cancelled) { glossaryRef.current = g; setGlossary(g); } })
+      .catch(e => console.error('Failed to load glossary:', e));
+    return () => { cancelled = true; };
+  }, [activeCourseCode]);
+
+  const updateGlossaryTerms = useCallback((terms: GlossaryTerm[]) => {
+    const updated = { ...glossaryRef.current, terms, updatedAt: Date.now() };
+    glossaryRef.current = updated;
+    setGlossary(updated);
+    saveGlossary(updated).catch(e => console.error('Failed to save glossary:', e));
+  }, []);
 
   const activeAccent = useMemo(() => ({
     blue: { bg: 'bg-blue-600', text: 'text-blue-600', border: 'border-blue-600', lightBg: 'bg-blue-50', darkText: 'dark:text-blue-400', soft: 'bg-blue-600/10' },
@@ -67,28 +414,106 @@ const App: React.FC = () => {
     amber: { bg: 'bg-amber-600', text: 'text-amber-600', border: 'border-amber-600', lightBg: 'bg-amber-50', darkText: 'dark:text-amber-400', soft: 'bg-amber-600/10' }
   }[accentColor]), [accentColor]);
 
+  // Records a finished turn as an entry and returns its id. `role` skips Auto detection.
+  const appendTurn = useCallback((turn: LiveTurn, options: {
+    role?: SpeakerRole;
+    typed?: boolean;
+    recorder?: TurnRecorder | null;
+  } = {}) => {
+    const id = Math.random().toString(36).substr(2, 9);
+    const recorder = options.recorder;
+    const session = activeSessionRef.current;
+    const hasAudio = !!recorder && !!session && !recorder.isEmpty();
+    if (hasAudio) {
+      saveRecording(recorder!.take(id, session!.id, session!.createdAt)).catch(e => console.error('Failed to save recording:', e));
+    }
+    const entry = buildTurnEntry(turn, {
+      id,
+      timestamp: Date.now(),
+      roleMode: activeRoleRef.current,
+      lastSpeaker: lastSpeakerRef.current,
+      pairs: languagePairsRef.current,
+      glossary: glossaryRef.current.terms,
+      role: options.role,
+      typed: options.typed,
+      hasAudio,
+    });
+    lastSpeakerRef.current = entry.role;
+    setDetectedRole(entry.role);
+    setTranscripts(prev => [...prev, entry]);
+    if (checkQualityRef.current) getQualityQueue().enqueue(entry);
+    return id;
+  }, []);
+
   const saveToHistory = useCallback(() => {
-    const input = currentInputRef.current;
-    const output = currentOutputRef.current;
-    if (input.trim() || output.trim()) {
-      setTranscripts(prev => [...prev, {
-        id: Math.random().toString(36).substr(2, 9),
-        timestamp: Date.now(),
-        text: input,
-        translation: output,
-        sourceLang: input.match(/[\u0E00-\u0E7F]/) ? 'Thai' : 'Chinese',
-        role: activeRoleRef.current
-      }]);
+    const turn = liveTurnRef.current;
+    if (turn.input.trim() || turn.output.trim()) {
+      appendTurn(turn, { typed: !!typedTurnRef.current, recorder: recorderRef.current });
+    } else {
+      recorderRef.current?.reset();
     }
-    currentInputRef.current = ''; currentOutputRef.current = '';
+    typedTurnRef.current = null;
+    liveTurnRef.current = emptyTurn();
     setCurrentInput(''); setCurrentOutput('');
+  }, [appendTurn]);
+
+  // Moves metered usage into the open session and the all-time totals.
+  const flushUsage = useCallback(() => {
+    const delta = usageMeterRef.current?.take();
+    if (!delta) return;
+    setUsageTotals(prev => ({ ...addUsage(prev, delta), since: prev.since }));
+    const session = activeSessionRef.current;
+    if (!session) return;
+    const updated = { ...session, usage: addUsage(session.usage ?? EMPTY_USAGE, delta), updatedAt: Date.now() };
+    activeSessionRef.current = updated;
+    setActiveSession(updated);
+    setSessions(prev => prev.map(s => s.id === updated.id ? updated : s));
+    saveSession(updated).catch(e => console.error('Failed to save session:', e));
+  }, []);
+
+  // Drops the translated audio that is playing or scheduled, as an interruption does.
+  const stopTranslationAudio = useCallback(() => {
+    sourcesRef.current.forEach(source => { try { source.stop(); } catch (e) {} });
+    sourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+    setTranslationPlaying(false);
   }, []);
 
+  useEffect(() => {
+    playbackSettingsRef.current = playbackSettings;
+    localStorage.setItem('edutranslate_playback', JSON.stringify(playbackSettings));
+    if (playbackSettings.captionsOnly) stopTranslationAudio();
+    [audioOutputRef.current, playbackRef.current?.output].forEach(output => output?.apply(playbackSettings).catch(err => {
+      console.error('Output device selection failed:', err);
+      setErrorMessage(t('error.outputDevice', { message: err.message || t('common.unknown') }));
+    }));
+  }, [playbackSettings, stopTranslationAudio]);
+
   const stopSession = useCallback(() => {
     saveToHistory();
+    flushUsage();
+    usageMeterRef.current = null;
+    const capture = liveCaptureRef.current?.finish();
+    if (capture) setLastCapture(capture);
+    liveCaptureRef.current = null;
+    replaySpeedRef.current = null;
+    setReplaySpeed(null);
+    if (autoSessionRef.current) startNewRunRef.current = true;
     setIsRecording(false);
     setStatus('idle');
-    if (sessionRef.current) { try { sessionRef.current.close(); } catch (e) {} sessionRef.current = null; }
+    setReconnectInfo(null);
+    if (connectionRef.current) { connectionRef.current.close(); connectionRef.current = null; }
+    if (captureRef.current) { captureRef.current.stop(); captureRef.current = null; }
+    vadGateRef.current = null;
+    pushToTalkRef.current = null;
+    inputPausedRef.current = false;
+    setInputPaused(false);
+    recorderRef.current = null;
+    setIsSpeaking(false);
+    inputMonitorRef.current?.stop();
+    inputMonitorRef.current = null;
+    inputGainRef.current = null;
+    setInputHealth('ok');
     if (streamRef.current) { streamRef.current.getTracks().forEach(track => track.stop()); streamRef.current = null; }
     
     // Clean up AudioContext but keep it for visualizer if needed, or close it fully
@@ -97,26 +522,95 @@ const App: React.FC = () => {
       mainAudioContextRef.current = null; 
     }
     analyserRef.current = null;
-    sourcesRef.current.forEach(source => { try { source.stop(); } catch (e) {} });
-    sourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
-  }, [saveToHistory]);
+    audioOutputRef.current = null;
+    stopTranslationAudio();
+  }, [saveToHistory, flushUsage, stopTranslationAudio]);
 
-  const startSession = async () => {
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = setInterval(flushUsage, USAGE_FLUSH_MS);
+    return () => clearInterval(timer);
+  }, [isRecording, flushUsage]);
+
+  const sessionUsage = activeSession?.usage ?? EMPTY_USAGE;
+  const budgetState = budgetLevel(estimateCost(sessionUsage, usageSettings), usageSettings);
+
+  // Announces each budget threshold once per run and stops at the limit when configured to.
+  useEffect(() => {
+    if (!isRecording || budgetState === budgetNoticeRef.current) return;
+    budgetNoticeRef.current = budgetState;
+    if (budgetState === 'warn') {
+      setErrorMessage(t('error.budgetWarn', { percent: usageSettings.warnPercent }));
+    } else if (budgetState === 'exceeded' && usageSettings.autoStop) {
+      stopSession();
+      setErrorMessage(t('error.budgetAutoStopped'));
+    } else if (budgetState === 'exceeded') {
+      setErrorMessage(t('error.budgetExceeded'));
+    }
+  }, [budgetState, isRecording]);
+
+  // Switching roles mid-session is announced to the model instead of reconnecting.
+  const changeRole = useCallback((role: RoleMode) => {
+    setActiveRole(role);
+    if (role !== 'Auto') { lastSpeakerRef.current = role; setDetectedRole(role); }
+    if (connectionRef.current && role !== activeRoleRef.current) {
+      connectionRef.current.withSession(session => {
+        try {
+          session.sendClientContent({
+            turns: [{ role: 'user', parts: [{ text: getRoleSwitchNotice(role, languagePairsRef.current) }] }],
+            turnComplete: false
+          });
+        } catch (e) { console.error('Role switch failed:', e); }
+      });
+    }
+  }, []);
+
+  const defaultSessionName = () => t('archive.defaultName', { date: dateTime(Date.now()) });
+
+  // Opens an automatically created session when none is open or a new run needs its own.
+  const ensureSession = async (newRun: boolean) => {
+    if (activeSessionRef.current && !newRun) return;
+    const session = createSession(defaultSessionName(), { courseCode: activeSessionRef.current?.courseCode });
+    openSession(session);
+    autoSessionRef.current = true;
+    setSessions(prev => [session, ...prev]);
+    await saveSession(session);
+  };
+
+  /** Connects to Gemini Live, or with `replay` feeds a saved capture through the same handling without a mic. */
+  const startSession = async (replay?: { capture: LiveCapture; speed: number }) => {
     try {
-      if (!window.isSecureContext) {
-        setErrorMessage('โปรดใช้งานผ่าน HTTPS เท่านั้น (Secure Context required)');
+      if (!replay && !window.isSecureContext) {
+        setErrorMessage(t('error.secureContext'));
+        return;
+      }
+      // Captures replay without a network; a live session cannot start.
+      if (!replay && !isOnline()) {
+        setErrorMessage(t('error.offline'));
+        return;
+      }
+      if ([languagePairs.Professor, languagePairs.Student].some(pair => pair.source === pair.target)) {
+        setErrorMessage(t('error.samePair'));
+        return;
+      }
+
+      if (!replay && usageSettings.autoStop && budgetLevel(estimateCost(activeSessionRef.current?.usage ?? EMPTY_USAGE, usageSettings), usageSettings) === 'exceeded' && !startNewRunRef.current) {
+        setErrorMessage(t('error.budgetReached'));
         return;
       }
 
       setStatus('connecting');
       setErrorMessage('');
+
+      // A replay always gets its own session so it never mixes into a real class.
+      await ensureSession(!!replay || startNewRunRef.current);
       
       const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       
       // Initialize single AudioContext for everything
       const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
       mainAudioContextRef.current = ctx;
+      audioOutputRef.current = createAudioOutput(ctx, playbackSettingsRef.current);
       
       // iOS Audio Unlock: Play silent sound using the *same* context
       const silentBuffer = ctx.createBuffer(1, 1, 22050);
@@ -128,20 +622,22 @@ const App: React.FC = () => {
       // Crucial for mobile: resume within user gesture
       await ctx.resume();
 
-      let stream: MediaStream;
-      try {
-        stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      } catch (err: any) {
-        if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
-          setErrorMessage('โปรดอนุญาตให้เข้าถึงไมโครโฟนในการตั้งค่าเบราว์เซอร์');
-        } else if (err.name === 'NotFoundError' || err.name === 'DevicesNotFoundError') {
-          setErrorMessage('ไม่พบไมโครโฟนบนอุปกรณ์นี้');
-        } else {
-          setErrorMessage(`ไม่สามารถเปิดไมโครโฟนได้: ${err.message}`);
+      let stream: MediaStream | null = null;
+      if (!replay) {
+        try {
+          stream = await navigator.mediaDevices.getUserMedia({ audio: inputConstraints(inputSettings) });
+        } catch (err: any) {
+          if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
+            setErrorMessage(t('error.micPermission'));
+          } else if (err.name === 'NotFoundError' || err.name === 'DevicesNotFoundError') {
+            setErrorMessage(t('error.micNotFound'));
+          } else {
+            setErrorMessage(t('error.micFailed', { message: err.message }));
+          }
+          setStatus('error');
+          ctx.close();
+          return;
         }
-        setStatus('error');
-        ctx.close();
-        return;
       }
       
       streamRef.current = stream;
@@ -150,94 +646,132 @@ const App: React.FC = () => {
       analyser.fftSize = 256;
       analyserRef.current = analyser;
 
-      const apiVoiceName = voiceGender === 'Male' ? 'Puck' : 'Kore';
-
-      const sessionPromise = ai.live.connect({
-        model: GEMINI_MODEL,
-        config: {
-          systemInstruction: getRoleInstruction(activeRole),
-          responseModalities: [Modality.AUDIO],
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: apiVoiceName } }
-          }
+      const apiVoiceName = getVoiceName(activeRole, languagePairs, voiceGender);
+
+      const liveConfig = {
+        systemInstruction: getRoleInstruction(activeRole, languagePairs, formatGlossaryPrompt(glossaryRef.current.terms)),
+        responseModalities: [Modality.AUDIO],
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: apiVoiceName } }
         },
-        callbacks: {
-          onopen: () => {
-            setStatus('listening');
-            setIsRecording(true);
-            const source = ctx.createMediaStreamSource(stream);
-            source.connect(analyser); 
-            
-            const scriptProcessor = ctx.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              // Gemini expects 16000Hz PCM. Downsample if device is different.
-              const downsampledData = downsample(inputData, ctx.sampleRate, 16000);
-              
-              sessionPromise.then(session => {
-                if (session) session.sendRealtimeInput({
-                  media: { 
-                    data: encodeAudio(new Uint8Array(downsampledData.buffer)), 
-                    mimeType: 'audio/pcm;rate=16000' 
-                  }
-                });
-              });
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(ctx.destination);
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            const audioData = msg.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audioData && mainAudioContextRef.current) {
-              const currentCtx = mainAudioContextRef.current;
-              if (currentCtx.state === 'suspended') await currentCtx.resume();
-              
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, currentCtx.currentTime);
-              // Decode audio using current context. Browser handles resampling to context's rate.
-              const buffer = await decodeAudioData(decodeAudio(audioData), currentCtx, 24000, 1);
-              const source = currentCtx.createBufferSource();
-              source.buffer = buffer;
-              source.connect(currentCtx.destination);
-              source.addEventListener('ended', () => sourcesRef.current.delete(source));
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              sourcesRef.current.add(source);
-            }
-            if (msg.serverContent?.inputTranscription) {
-              const text = msg.serverContent.inputTranscription.text;
-              currentInputRef.current += text; setCurrentInput(currentInputRef.current);
-            }
-            if (msg.serverContent?.outputTranscription) {
-              const text = msg.serverContent.outputTranscription.text;
-              currentOutputRef.current += text; setCurrentOutput(currentOutputRef.current);
-            }
-            if (msg.serverContent?.turnComplete) saveToHistory();
-            if (msg.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => { try { s.stop(); } catch (e) {} });
-              sourcesRef.current.clear(); nextStartTimeRef.current = 0;
-            }
-          },
-          onerror: (err) => { 
-            console.error("Live Error:", err);
-            setErrorMessage('พบข้อผิดพลาดในการเชื่อมต่อกับ AI'); 
-            stopSession(); 
-          },
-          onclose: () => stopSession()
+        // With the client-side gate or push-to-talk the turns are delimited by our own activity signals.
+        ...((vadSettings.enabled || talkMode === 'pushToTalk') && { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } })
+      };
+
+      const handleMessage = async (msg: LiveServerMessage) => {
+        liveCaptureRef.current?.add(msg);
+        const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+        if (audioData) {
+          recorderRef.current?.addTranslation(audioData);
+          usageMeterRef.current?.addAudioReceived(pcmDurationMs(audioData, TRANSLATION_SAMPLE_RATE));
+        }
+        if (msg.usageMetadata) usageMeterRef.current?.addTokens(msg.usageMetadata);
+        const playback = playbackSettingsRef.current;
+        // Accelerated replays would queue audio far behind the captions, so they stay silent.
+        const silentReplay = (replaySpeedRef.current ?? 1) > 1;
+        if (audioData && mainAudioContextRef.current && !playback.captionsOnly && !silentReplay && typedTurnRef.current?.speak !== false) {
+          const currentCtx = mainAudioContextRef.current;
+          if (currentCtx.state === 'suspended') await currentCtx.resume();
+          
+          nextStartTimeRef.current = Math.max(nextStartTimeRef.current, currentCtx.currentTime);
+          // Decode audio using current context. Browser handles resampling to context's rate.
+          const buffer = await decodeAudioData(decodeAudio(audioData), currentCtx, 24000, 1);
+          const source = currentCtx.createBufferSource();
+          source.buffer = buffer;
+          source.playbackRate.value = playback.rate;
+          source.connect(audioOutputRef.current?.input ?? currentCtx.destination);
+          source.addEventListener('ended', () => {
+            sourcesRef.current.delete(source);
+            if (sourcesRef.current.size === 0) setTranslationPlaying(false);
+          });
+          source.start(nextStartTimeRef.current);
+          nextStartTimeRef.current += buffer.duration / playback.rate;
+          sourcesRef.current.add(source);
+          setTranslationPlaying(true);
+        }
+        const turn = addTranscription(liveTurnRef.current, msg, Date.now());
+        if (turn !== liveTurnRef.current) {
+          liveTurnRef.current = turn;
+          setCurrentInput(turn.input); setCurrentOutput(turn.output);
         }
+        if (msg.serverContent?.turnComplete) { usageMeterRef.current?.addTurn(); saveToHistory(); }
+        if (msg.serverContent?.interrupted) stopTranslationAudio();
+      };
+
+      // Partial currentInput/currentOutput survive a reconnect; only stopSession flushes them.
+      const connection = createLiveConnection({
+        connect: replay
+          ? createReplayConnector(replay.capture, replay.speed, () => {
+              // Let the last translated audio finish before closing the run.
+              const remaining = Math.max(0, nextStartTimeRef.current - ctx.currentTime);
+              setTimeout(() => { if (connectionRef.current === connection) stopSession(); }, remaining * 1000);
+            })
+          : (resumeHandle, callbacks) => ai.live.connect({
+              model: GEMINI_MODEL,
+              config: { ...liveConfig, sessionResumption: { handle: resumeHandle } },
+              callbacks
+            }),
+        onMessage: handleMessage,
+        onStateChange: (state, reconnect) => {
+          if (state === 'open') { setStatus('listening'); setReconnectInfo(null); }
+          if (state === 'reconnecting') { setStatus('reconnecting'); setReconnectInfo(reconnect); setClock(Date.now()); }
+        },
+        onGiveUp: (wasConnected) => {
+          setErrorMessage(t(wasConnected ? 'error.connectionLost' : 'error.connectionFailed'));
+          stopSession();
+        },
+        onAudioSent: (durationMs) => usageMeterRef.current?.addAudioSent(durationMs)
+      });
+      connectionRef.current = connection;
+      // Replayed messages cost nothing, so they are neither metered nor captured again.
+      usageMeterRef.current = replay ? null : createUsageMeter();
+      liveCaptureRef.current = !replay && captureStream ? createLiveCapture(activeRole, languagePairs) : null;
+      replaySpeedRef.current = replay?.speed ?? null;
+      setReplaySpeed(replay?.speed ?? null);
+      budgetNoticeRef.current = 'ok';
+      await connection.start();
+      if (connectionRef.current !== connection) return;
+
+      setIsRecording(true);
+      if (!stream) return;
+      const source = ctx.createMediaStreamSource(stream);
+      const inputGain = ctx.createGain();
+      inputGain.gain.value = inputSettings.gain;
+      source.connect(inputGain);
+      inputGain.connect(analyser);
+      inputGainRef.current = inputGain;
+      inputMonitorRef.current = createInputMonitor(analyser, stream.getAudioTracks()[0], setInputHealth);
+      
+      // Gemini expects 16000Hz PCM; resampling and encoding happen off the main thread.
+      recorderRef.current = recordAudio ? createTurnRecorder() : null;
+      const activity = {
+        send: (frame: PcmFrame) => {
+          connection.sendAudio(frame.data, frame.durationMs);
+          recorderRef.current?.addSource(frame.data, frame.durationMs);
+        },
+        onActivityStart: () => { connection.sendActivity('start'); setIsSpeaking(true); },
+        onActivityEnd: () => { connection.sendActivity('end'); setIsSpeaking(false); }
+      };
+      const gate = createVoiceActivityGate(vadSettings, activity);
+      const talk = talkMode === 'pushToTalk' ? createPushToTalk(activity) : null;
+      vadGateRef.current = gate;
+      pushToTalkRef.current = talk;
+      captureRef.current = await startAudioCapture(ctx, inputGain, frame => {
+        if (inputPausedRef.current) return;
+        if (talk) talk.push(frame); else gate.push(frame);
       });
-      sessionRef.current = await sessionPromise;
     } catch (err: any) {
       console.error("Initialization error:", err);
-      setErrorMessage(`เกิดข้อผิดพลาด: ${err.message || 'Unknown'}`);
+      setErrorMessage(t('error.generic', { message: err.message || t('common.unknown') }));
       setStatus('error');
     }
   };
 
   const copyToClipboard = useCallback((text: string, id: string) => {
     if (!navigator.clipboard) {
-      setErrorMessage('เบราว์เซอร์ไม่รองรับการคัดลอก');
+      setErrorMessage(t('error.clipboard'));
       return;
     }
     navigator.clipboard.writeText(text).then(() => {
@@ -246,24 +780,324 @@ const App: React.FC = () => {
     }).catch(err => {
       console.error('Failed to copy: ', err);
     });
-  }, []);
+  }, [t]);
 
-  const toggleRole = (id: string) => {
+  const toggleRole = useCallback((id: string) => {
     setTranscripts(prev => prev.map(t => t.id === id ? { ...t, role: t.role === 'Professor' ? 'Student' : 'Professor' } : t));
+  }, []);
+
+  const getTextModel = () => (textModelRef.current ??= createGeminiTextModel(process.env.API_KEY));
+  const getSpeechModel = () => (speechModelRef.current ??= createGeminiSpeechModel(process.env.API_KEY));
+
+  // A result only lands if the entry still has the text it was checked on.
+  const getQualityQueue = () => (qualityQueueRef.current ??= createQualityQueue(
+    getTextModel,
+    (checked, quality) => setTranscripts(prev => prev.map(e =>
+      e.id === checked.id && e.text === checked.text && e.translation === checked.translation ? { ...e, quality } : e)),
+    err => console.error('Quality check failed:', err)
+  ));
+
+  const markReviewed = useCallback((id: string) => {
+    setTranscripts(prev => prev.map(e => e.id === id && e.quality ? { ...e, quality: { ...e.quality, flagged: false } } : e));
+  }, []);
+
+  const toggleRomanization = useCallback((column: keyof RomanizationSettings) => {
+    setRomanization(prev => ({ ...prev, [column]: !prev[column] }));
+  }, []);
+
+  // The live text has no entry yet, so its language is read from the script of what has arrived so far.
+  const liveText = (text: string, column: keyof RomanizationSettings) => {
+    const lang = detectScriptLanguage(text, pairLanguages(languagePairs));
+    return romanization[column] && lang && hasRomanization(lang) ? <RubyText text={text} lang={lang} /> : text;
+  };
+  const liveRomanizationButton = (column: keyof RomanizationSettings) => pairLanguages(languagePairs).some(hasRomanization) && (
+    <button
+      onClick={() => toggleRomanization(column)}
+      className={`ml-auto p-1 text-xs transition-colors ${romanization[column] ? activeAccent.text : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-200'}`}
+      title={t('romanization.toggle')}
+    >
+      <i className="fas fa-spell-check"></i>
+    </button>
+  );
+
+
+  // Corrections keep the replaced text as a revision and re-check the glossary.
+  const applyEntryChanges = useCallback((id: string, changes: EntryChanges, change: EntryRevision['change']) => {
+    setTranscripts(prev => prev.map(t => {
+      if (t.id !== id) return t;
+      const revised = reviseEntry(t, changes, change);
+      if (revised === t) return t;
+      // A hand-corrected entry counts as reviewed, so its quality check goes with the old text.
+      const { glossaryIssues: _, quality: __, ...rest } = revised;
+      const glossaryIssues = findGlossaryIssues(rest.text, rest.translation, glossaryRef.current.terms, entryTargetLang(rest));
+      return glossaryIssues.length > 0 ? { ...rest, glossaryIssues } : rest;
+    }));
+  }, []);
+
+  const editEntry = useCallback((id: string, changes: EntryChanges) => applyEntryChanges(id, changes, 'edit'), [applyEntryChanges]);
+
+  const retranslateEntryText = async (id: string, text: string) => {
+    const entry = transcripts.find(t => t.id === id);
+    if (!entry) return;
+    try {
+      const translation = await retranslateEntry(entry, text, languagePairsRef.current, formatGlossaryPrompt(glossaryRef.current.terms), getTextModel());
+      applyEntryChanges(id, { text, translation }, 'retranslate');
+    } catch (err: any) {
+      console.error('Re-translation failed:', err);
+      setErrorMessage(t('error.retranslate', { message: err.message || t('common.unknown') }));
+      throw err;
+    }
   };
 
   const clearHistory = () => {
-    if (window.confirm('ยืนยันการลบประวัติ?')) {
-      setTranscripts([]); localStorage.removeItem('edutranslate_history');
+    if (window.confirm(t('confirm.clearHistory'))) {
+      setTranscripts([]);
+      if (activeSessionRef.current) deleteSessionRecordings(activeSessionRef.current.id).catch(e => console.error('Failed to delete recordings:', e));
+    }
+  };
+
+  const stopPlayback = useCallback(() => {
+    if (playbackSourceRef.current) { try { playbackSourceRef.current.stop(); } catch (e) {} playbackSourceRef.current = null; }
+    setPlayingAudio(null);
+  }, []);
+
+  useEffect(() => {
+    if (playbackSettings.captionsOnly && playingAudio?.track === 'translation') stopPlayback();
+  }, [playbackSettings.captionsOnly, playingAudio, stopPlayback]);
+
+  const getPlayback = () => {
+    if (!playbackRef.current) {
+      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      playbackRef.current = { ctx, output: createAudioOutput(ctx, playbackSettingsRef.current) };
+    }
+    return playbackRef.current;
+  };
+
+  /** Plays a turn's recording, or only the part belonging to one sentence segment. */
+  const playEntryAudio = async (entryId: string, track: RecordingTrack, segment?: number) => {
+    const wasPlaying = playingAudio?.entryId === entryId && playingAudio.track === track && playingAudio.segment === segment;
+    stopPlayback();
+    if (wasPlaying) return;
+    if (track === 'translation' && playbackSettingsRef.current.captionsOnly) { setErrorMessage(t('error.captionsOnly')); return; }
+    try {
+      const recording = await getRecording(entryId);
+      if (!recording) { setErrorMessage(t('error.noRecording')); return; }
+      const { ctx, output } = getPlayback();
+      await ctx.resume();
+      const entry = transcripts.find(t => t.id === entryId);
+      const session = activeSessionRef.current;
+      const range = segment !== undefined && entry && session ? segmentAudioRange(entry, segment, recording, track, session.createdAt) : undefined;
+      const node = playRecording(ctx, output.input, recording, track, () => {
+        if (playbackSourceRef.current === node) { playbackSourceRef.current = null; setPlayingAudio(null); }
+      }, range);
+      if (!node) return;
+      playbackSourceRef.current = node;
+      setPlayingAudio({ entryId, track, segment });
+    } catch (err: any) {
+      console.error('Playback failed:', err);
+      setErrorMessage(t('error.playback', { message: err.message || t('common.unknown') }));
+    }
+  };
+
+  const playTypedAudio = async (entryId: string, audio: string) => {
+    stopPlayback();
+    const { ctx, output } = getPlayback();
+    await ctx.resume();
+    const node = ctx.createBufferSource();
+    node.buffer = await decodeAudioData(decodeAudio(audio), ctx, TRANSLATION_SAMPLE_RATE, 1);
+    node.playbackRate.value = playbackSettingsRef.current.rate;
+    node.connect(output.input);
+    node.addEventListener('ended', () => {
+      if (playbackSourceRef.current === node) { playbackSourceRef.current = null; setPlayingAudio(null); }
+    });
+    node.start();
+    playbackSourceRef.current = node;
+    setPlayingAudio({ entryId, track: 'translation' });
+  };
+
+  /**
+   * Typed text joins the running Live session as a turn of its own; without one it is
+   * translated by the text model and, if asked, read aloud with the role's voice.
+   */
+  const sendTypedText = async (text: string) => {
+    const connection = connectionRef.current;
+    if (connection) {
+      typedTurnRef.current = { speak: speakTyped };
+      liveTurnRef.current = { ...emptyTurn(), input: text, inputMarks: [{ offset: 0, at: Date.now() }] };
+      setCurrentInput(text);
+      connection.withSession(session => {
+        try {
+          session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: getTypedTurnPrompt(text) }] }], turnComplete: true });
+        } catch (e) { console.error('Typed input failed:', e); }
+      });
+      return;
+    }
+    const pairs = languagePairsRef.current;
+    const role = typedTextRole(text, activeRoleRef.current, lastSpeakerRef.current, pairs);
+    let translation: string;
+    try {
+      translation = await translateTypedText(text, role, pairs, formatGlossaryPrompt(glossaryRef.current.terms), getTextModel());
+      await ensureSession(false);
+    } catch (err: any) {
+      console.error('Typed translation failed:', err);
+      setErrorMessage(t('error.typed', { message: err.message || t('common.unknown') }));
+      throw err;
+    }
+    let audio: string | null = null;
+    if (speakTyped) {
+      try {
+        audio = await getSpeechModel().speak(translation, getVoiceName(role, pairs, voiceGender));
+      } catch (err: any) {
+        // The translation is kept even when it cannot be read aloud.
+        console.error('Speech synthesis failed:', err);
+        setErrorMessage(t('error.speak', { message: err.message || t('common.unknown') }));
+      }
+    }
+    const recorder = audio && recordAudio ? createTurnRecorder() : null;
+    if (audio) recorder?.addTranslation(audio);
+    const entryId = appendTurn({ ...emptyTurn(), input: text, output: translation }, { role, typed: true, recorder });
+    if (audio && !playbackSettingsRef.current.captionsOnly) playTypedAudio(entryId, audio).catch(e => console.error('Playback failed:', e));
+  };
+
+  const createClassSession = (details: SessionDetails) => {
+    const session = createSession(defaultSessionName(), details);
+    openSession(session);
+    setSessions(prev => [session, ...prev]);
+    saveSession(session).catch(e => console.error('Failed to save session:', e));
+    setShowSessionBrowser(false);
+  };
+
+  const updateActiveSession = (changes: Partial<SessionDetails> & Pick<LectureSession, 'summary' | 'usage'>) => {
+    const session = activeSessionRef.current;
+    if (!session) return;
+    const updated = { ...session, ...changes, name: changes.name || session.name, updatedAt: Date.now() };
+    activeSessionRef.current = updated;
+    setActiveSession(updated);
+    setSessions(prev => prev.map(s => s.id === updated.id ? updated : s));
+    saveSession(updated).catch(e => console.error('Failed to save session:', e));
+  };
+
+  const summarizeActiveSession = async () => {
+    const session = activeSessionRef.current;
+    if (!session) return;
+    setSummarizing(true);
+    try {
+      const summary = await summarizeSession(session, getTextModel());
+      if (activeSessionRef.current?.id === session.id) {
+        updateActiveSession({ summary });
+      } else {
+        const updated = { ...session, summary, updatedAt: Date.now() };
+        setSessions(prev => prev.map(s => s.id === updated.id ? updated : s));
+        await saveSession(updated);
+      }
+    } catch (err: any) {
+      console.error('Summary failed:', err);
+      setErrorMessage(t('error.summary', { message: err.message || t('common.unknown') }));
+    } finally {
+      setSummarizing(false);
+    }
+  };
+
+  const removeSession = (id: string) => {
+    if (isRecording && activeSessionRef.current?.id === id) { setErrorMessage(t('error.stopBeforeDelete')); return; }
+    if (!window.confirm(t('confirm.deleteSession'))) return;
+    deleteSession(id).catch(e => console.error('Failed to delete session:', e));
+    deleteSessionRecordings(id).catch(e => console.error('Failed to delete recordings:', e));
+    setSessions(prev => prev.filter(s => s.id !== id));
+    if (activeSessionRef.current?.id === id) {
+      qualityQueueRef.current?.clear();
+      activeSessionRef.current = null;
+      setActiveSession(null);
+      setTranscripts([]);
+      localStorage.removeItem('edutranslate_active_session');
+    }
+  };
+
+  const exportSession = useMemo(
+    () => activeSession ? { ...activeSession, entries: transcripts } : createSession(defaultSessionName(), {}, transcripts),
+    [activeSession, transcripts, t]
+  );
+
+  const saveCapture = () => {
+    if (!lastCapture) return;
+    const stamp = new Date(lastCapture.recordedAt).toISOString().slice(0, 19).replace(/[T:]/g, '-');
+    downloadBlob(new Blob([serializeLiveCapture(lastCapture)], { type: 'application/json' }), `edutranslate-stream-${stamp}.json`);
+  };
+
+  const replayCapture = async (file: File, speed: number) => {
+    let capture: LiveCapture;
+    try {
+      capture = parseLiveCapture(await file.text());
+    } catch (err: any) {
+      console.error('Replay failed:', err);
+      setErrorMessage(t('error.replayFile', { message: err.message || t('common.unknown') }));
+      return;
+    }
+    await startSession({ capture, speed });
+  };
+
+  // Pausing keeps the connection open but stops forwarding audio; an open turn is ended first.
+  const changeInputPaused = useCallback((paused: boolean) => {
+    if (paused) {
+      pushToTalkRef.current?.release();
+      vadGateRef.current?.flush();
     }
+    inputPausedRef.current = paused;
+    setInputPaused(paused);
+  }, []);
+
+  const pressToTalk = useCallback(() => {
+    if (!inputPausedRef.current) pushToTalkRef.current?.press();
+  }, []);
+
+  const releaseTalk = useCallback(() => pushToTalkRef.current?.release(), []);
+
+  const shortcutHandlersRef = useRef<Record<ShortcutAction, () => void>>();
+  shortcutHandlersRef.current = {
+    toggleSession: () => { if (isRecording) stopSession(); else if (status !== 'connecting' && online) startSession(); },
+    switchRole: () => {
+      const order: RoleMode[] = ['Auto', 'Professor', 'Student'];
+      changeRole(order[(order.indexOf(activeRole) + 1) % order.length]);
+    },
+    pushToTalk: pressToTalk,
+    pauseInput: () => { if (isRecording) changeInputPaused(!inputPausedRef.current); },
+    pauseOutput: () => setPlaybackSettings(prev => ({ ...prev, captionsOnly: !prev.captionsOnly })),
+    export: () => { if (transcripts.length > 0) setShowExportDialog(true); },
+    help: () => setShowShortcutHelp(true),
   };
 
-  const exportTranscript = () => {
-    const text = transcripts.map(t => `[${new Date(t.timestamp).toLocaleTimeString()}] ${t.role}\nSource: ${t.text}\nTrans: ${t.translation}\n`).join('\n');
-    const blob = new Blob([text], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a'); a.href = url; a.download = `EduTranslate_Session.txt`; a.click();
-    URL.revokeObjectURL(url);
+  useEffect(() => {
+    if (showShortcutHelp) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
+      const combo = comboFromEvent(e);
+      const action = combo && findShortcut(shortcuts, combo);
+      if (!action) return;
+      e.preventDefault();
+      if (!e.repeat) shortcutHandlersRef.current?.[action]();
+    };
+    const onKeyUp = (e: KeyboardEvent) => { if (e.code === comboKey(shortcuts.pushToTalk)) releaseTalk(); };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    // A key released while the window is in the background never reports its key-up.
+    window.addEventListener('blur', releaseTalk);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', releaseTalk);
+    };
+  }, [shortcuts, showShortcutHelp, releaseTalk]);
+
+  const importSession = async (file: File) => {
+    try {
+      const imported = parseSessionImport(await file.text(), t('archive.importedSession'));
+      const session = sessions.some(s => s.id === imported.id) ? { ...imported, id: createSessionId() } : imported;
+      await saveSession(session);
+      setSessions(prev => [session, ...prev]);
+    } catch (err: any) {
+      console.error('Import failed:', err);
+      setErrorMessage(t('error.import', { message: err.message || t('common.unknown') }));
+    }
   };
 
   return (
@@ -280,7 +1114,7 @@ const App: React.FC = () => {
               <h1 className="text-lg font-black tracking-tight text-slate-900 dark:text-white leading-none">EduTranslate <span className={activeAccent.text}>Live</span></h1>
               <div className="flex items-center gap-2 mt-1">
                 <span className="w-1.5 h-1.5 bg-green-500 rounded-full"></span>
-                <span className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest">Enterprise Academic v2.0</span>
+                <span className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest">{t('app.tagline')}</span>
               </div>
             </div>
           </div>
@@ -288,19 +1122,18 @@ const App: React.FC = () => {
           <div className="flex items-center gap-2">
             {/* Desktop Role Switcher */}
             <div className="hidden md:flex items-center bg-slate-100 dark:bg-slate-800 p-1 rounded-xl border border-slate-200 dark:border-slate-700 mr-2">
-              {(['Professor', 'Student'] as UserRole[]).map((role) => (
+              {(['Auto', 'Professor', 'Student'] as RoleMode[]).map((role) => (
                 <button
                   key={role}
-                  disabled={isRecording}
-                  onClick={() => setActiveRole(role)}
+                  onClick={() => changeRole(role)}
                   className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${
                     activeRole === role 
                       ? `${activeAccent.bg} text-white shadow-sm` 
                       : 'text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300'
                   } disabled:opacity-50`}
                 >
-                  <i className={`fas ${role === 'Professor' ? 'fa-user-tie' : 'fa-user-graduate'}`}></i>
-                  {role === 'Professor' ? 'Teacher Mode' : 'Student Mode'}
+                  <i className={`fas ${ROLE_MODE_ICONS[role]}`}></i>
+                  {t(`roleMode.${role}`)}
                 </button>
               ))}
             </div>
@@ -315,22 +1148,24 @@ const App: React.FC = () => {
                     voiceGender === gender ? `${activeAccent.bg} text-white shadow-sm` : 'text-slate-400 dark:text-slate-500 hover:text-slate-600 dark:hover:text-slate-300'
                   } disabled:opacity-50`}
                 >
-                  {gender === 'Female' ? <i className="fas fa-venus"></i> : <i className="fas fa-mars"></i>} {gender}
+                  {gender === 'Female' ? <i className="fas fa-venus"></i> : <i className="fas fa-mars"></i>} {t(`voice.${gender}`)}
                 </button>
               ))}
             </div>
 
-            <button onClick={() => setTheme(t => t === 'light' ? 'dark' : 'light')} className="p-2.5 w-11 h-11 flex items-center justify-center rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors">
+            <UiLanguageSwitcher className="hidden sm:flex h-11" />
+
+            <button onClick={() => setTheme(current => current === 'light' ? 'dark' : 'light')} className="p-2.5 w-11 h-11 flex items-center justify-center rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors" title={t('app.toggleTheme')}>
               <i className={`fas ${theme === 'light' ? 'fa-moon' : 'fa-sun'}`}></i>
             </button>
 
             {!isRecording ? (
-              <button onClick={startSession} className={`${activeAccent.bg} hover:brightness-110 text-white px-6 py-2.5 rounded-xl font-bold shadow-lg shadow-blue-500/20 flex items-center gap-2 transition-all active:scale-95`}>
-                <i className="fas fa-microphone"></i> <span className="hidden sm:inline">Connect Live</span>
+              <button onClick={() => startSession()} disabled={!online} className={`${activeAccent.bg} hover:brightness-110 text-white px-6 py-2.5 rounded-xl font-bold shadow-lg shadow-blue-500/20 flex items-center gap-2 transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed disabled:active:scale-100`} title={online ? undefined : t('offline.connectHint')}>
+                <i className={`fas ${online ? 'fa-microphone' : 'fa-plane'}`}></i> <span className="hidden sm:inline">{t('app.connect')}</span>
               </button>
             ) : (
               <button onClick={stopSession} className="bg-red-500 hover:bg-red-600 text-white px-6 py-2.5 rounded-xl font-bold shadow-lg shadow-red-500/20 flex items-center gap-2 transition-all active:scale-95">
-                <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div> <span>Stop Live</span>
+                <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div> <span>{t('app.stop')}</span>
               </button>
             )}
           </div>
@@ -340,17 +1175,16 @@ const App: React.FC = () => {
       {/* Role Selection Mobile Overlay */}
       <div className="md:hidden bg-white dark:bg-[#111827] px-6 py-2 flex justify-center border-b border-slate-200 dark:border-slate-800 sticky top-[60px] z-20">
         <div className="flex items-center bg-slate-100 dark:bg-slate-800 p-1 rounded-xl border border-slate-200 dark:border-slate-700 w-full overflow-hidden">
-          {(['Professor', 'Student'] as UserRole[]).map((role) => (
+          {(['Auto', 'Professor', 'Student'] as RoleMode[]).map((role) => (
             <button
               key={role}
-              disabled={isRecording}
-              onClick={() => setActiveRole(role)}
+              onClick={() => changeRole(role)}
               className={`flex-1 px-2 py-2 rounded-lg text-[9px] font-black uppercase tracking-tighter transition-all flex items-center justify-center gap-1.5 ${
                 activeRole === role ? `${activeAccent.bg} text-white shadow-sm` : 'text-slate-400 dark:text-slate-500'
               } disabled:opacity-50`}
             >
-              <i className={`fas ${role === 'Professor' ? 'fa-user-tie' : 'fa-user-graduate'}`}></i>
-              {role === 'Professor' ? 'Teacher Mode' : 'Student Mode'}
+              <i className={`fas ${ROLE_MODE_ICONS[role]}`}></i>
+              {t(`roleMode.${role}`)}
             </button>
           ))}
         </div>
@@ -362,103 +1196,216 @@ const App: React.FC = () => {
             <div className={`absolute top-0 right-0 w-32 h-32 ${activeAccent.soft} rounded-full -mr-16 -mt-16 transition-all duration-700 group-hover:scale-150`}></div>
             <div className="flex items-center justify-between relative z-10">
               <div className="flex items-center gap-3">
-                <h2 className="text-sm font-black text-slate-400 dark:text-slate-600 uppercase tracking-widest">Active Processing</h2>
-                <span className={`text-[10px] font-bold px-2 py-0.5 rounded-md ${activeRole === 'Professor' ? 'bg-blue-100 text-blue-700' : 'bg-purple-100 text-purple-700'}`}>
-                  {activeRole === 'Professor' ? 'TEACHER MODE' : 'STUDENT MODE'}
+                <h2 className="text-sm font-black text-slate-400 dark:text-slate-600 uppercase tracking-widest">{t('live.heading')}</h2>
+                <span className={`text-[10px] font-bold px-2 py-0.5 rounded-md ${activeRole === 'Professor' ? 'bg-blue-100 text-blue-700' : activeRole === 'Student' ? 'bg-purple-100 text-purple-700' : 'bg-amber-100 text-amber-700'}`}>
+                  {t(`roleMode.${activeRole as RoleMode}`).toUpperCase()}
                 </span>
+                {activeRole === 'Auto' && (
+                  <span className="text-[10px] font-bold px-2 py-0.5 rounded-md bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400" title={t('live.detectedSpeaker')}>
+                    <i className={`fas ${ROLE_MODE_ICONS[detectedRole]} mr-1`}></i>{t(`role.${detectedRole as SpeakerRole}`)}
+                  </span>
+                )}
               </div>
-              {status === 'listening' && <div className="flex items-center gap-2 text-[10px] font-bold text-green-500 bg-green-500/10 px-3 py-1 rounded-full"><span className="w-1.5 h-1.5 bg-green-500 rounded-full animate-ping"></span> Live</div>}
+              {!online && !isRecording && <div className="flex items-center gap-2 text-[10px] font-bold text-slate-500 bg-slate-500/10 px-3 py-1 rounded-full" title={t('offline.connectHint')}><i className="fas fa-wifi"></i> {t('offline.badge')}</div>}
+              {status === 'listening' && inputPaused && <div className="flex items-center gap-2 text-[10px] font-bold text-amber-500 bg-amber-500/10 px-3 py-1 rounded-full"><i className="fas fa-pause"></i> {t('live.paused')}</div>}
+              {status === 'listening' && !inputPaused && replaySpeed !== null && <div className="flex items-center gap-2 text-[10px] font-bold text-violet-500 bg-violet-500/10 px-3 py-1 rounded-full"><i className="fas fa-clock-rotate-left"></i> {t('live.replaying', { speed: replaySpeed })}</div>}
+              {status === 'listening' && !inputPaused && replaySpeed === null && <div className="flex items-center gap-2 text-[10px] font-bold text-green-500 bg-green-500/10 px-3 py-1 rounded-full"><span className="w-1.5 h-1.5 bg-green-500 rounded-full animate-ping"></span> {t('live.live')}</div>}
+              {status === 'reconnecting' && <div className="flex items-center gap-2 text-[10px] font-bold text-amber-500 bg-amber-500/10 px-3 py-1 rounded-full"><i className="fas fa-rotate fa-spin"></i> {t('live.reconnecting')}</div>}
             </div>
+            {!online && !isRecording && (
+              <div className="relative z-10 flex items-center gap-4 p-4 rounded-2xl bg-slate-50 dark:bg-slate-800/40 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300">
+                <i className="fas fa-plane text-xl"></i>
+                <div className="flex-1">
+                  <p className="text-xs font-black uppercase tracking-widest">{t('offline.title')}</p>
+                  <p className="text-[11px] font-bold opacity-80">{t('offline.explanation')}</p>
+                </div>
+              </div>
+            )}
+            {status === 'reconnecting' && reconnectInfo && (
+              <div className="relative z-10 flex items-center gap-4 p-4 rounded-2xl bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-800/40 text-amber-700 dark:text-amber-400">
+                <i className="fas fa-wifi text-xl"></i>
+                <div className="flex-1">
+                  <p className="text-xs font-black uppercase tracking-widest">{t('live.connectionLost')}</p>
+                  <p className="text-[11px] font-bold opacity-80">
+                    {t('live.retry', { attempt: reconnectInfo.attempt, max: reconnectInfo.maxAttempts, seconds: Math.max(0, Math.round((clock - reconnectInfo.downSince) / 1000)) })}
+                  </p>
+                </div>
+              </div>
+            )}
             <div className="flex flex-col gap-6 relative z-10">
               <div className="space-y-3">
                 <div className="flex items-center gap-2">
                    <div className={`w-6 h-6 rounded-full ${activeAccent.bg} flex items-center justify-center text-[10px] text-white shadow-lg`}><i className="fas fa-comment"></i></div>
-                   <span className="text-xs font-bold text-slate-500 uppercase tracking-tighter">Detected Speech</span>
+                   <span className="text-xs font-bold text-slate-500 uppercase tracking-tighter">{t('live.detectedSpeech')}</span>
+                   {liveRomanizationButton('source')}
                 </div>
                 <div className="min-h-[120px] p-6 bg-slate-50 dark:bg-slate-900/50 rounded-3xl text-slate-800 dark:text-slate-200 text-xl font-medium leading-relaxed border border-slate-100 dark:border-slate-800 transition-all">
-                  {currentInput || <span className="text-slate-300 dark:text-slate-700 italic">Waiting for voice activity...</span>}
+                  {currentInput ? liveText(currentInput, 'source') : <span className="text-slate-300 dark:text-slate-700 italic">{t('live.waitingForVoice')}</span>}
                 </div>
               </div>
               <div className="space-y-3">
                 <div className="flex items-center gap-2">
                    <div className="w-6 h-6 rounded-full bg-slate-800 dark:bg-slate-600 flex items-center justify-center text-[10px] text-white shadow-lg"><i className="fas fa-language"></i></div>
-                   <span className="text-xs font-bold text-slate-500 uppercase tracking-tighter">Academic Translation</span>
+                   <span className="text-xs font-bold text-slate-500 uppercase tracking-tighter">{t('live.translation')}</span>
+                   {liveRomanizationButton('translation')}
                 </div>
                 <div className={`min-h-[120px] p-6 rounded-3xl text-slate-900 dark:text-white text-xl font-bold leading-relaxed border transition-all ${theme === 'dark' ? 'bg-blue-900/10 border-blue-900/30' : 'bg-blue-50/50 border-blue-100'}`}>
-                  {currentOutput || <span className="text-blue-200 dark:text-blue-900/40 italic">System ready for output...</span>}
+                  {currentOutput ? liveText(currentOutput, 'translation') : <span className="text-blue-200 dark:text-blue-900/40 italic">{t('live.readyForOutput')}</span>}
                 </div>
               </div>
             </div>
             <div className="mt-4 pt-6 border-t border-slate-100 dark:border-slate-800">
                <AudioVisualizer analyser={analyserRef.current} isActive={isRecording} />
+               <div className="mt-4">
+                 <LanguagePairsPanel pairs={languagePairs} isRecording={isRecording} onChange={setLanguagePairs} />
+               </div>
+               <div className="mt-4">
+                 <TalkControls
+                   mode={talkMode}
+                   isRecording={isRecording && replaySpeed === null}
+                   paused={inputPaused}
+                   talking={isSpeaking}
+                   accentBg={activeAccent.bg}
+                   talkKey={formatCombo(shortcuts.pushToTalk)}
+                   onModeChange={setTalkMode}
+                   onPausedChange={changeInputPaused}
+                   onPress={pressToTalk}
+                   onRelease={releaseTalk}
+                 />
+               </div>
+               <div className="mt-4">
+                 <MicrophonePanel settings={inputSettings} isRecording={isRecording} analyser={analyserRef.current} health={inputHealth} onChange={setInputSettings} />
+               </div>
+               <div className="mt-4">
+                 <VoiceActivityPanel settings={vadSettings} isSpeaking={isSpeaking} isRecording={isRecording} onChange={setVadSettings} />
+               </div>
+               <div className="mt-4">
+                 <AudioOutputPanel settings={playbackSettings} playing={translationPlaying} onChange={setPlaybackSettings} onStop={stopTranslationAudio} />
+               </div>
+               <label className={`mt-4 flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 ${isRecording ? 'opacity-50' : 'cursor-pointer'}`} title={t('live.recordAudioHint')}>
+                 <input type="checkbox" checked={recordAudio} disabled={isRecording} onChange={e => setRecordAudio(e.target.checked)} />
+                 <i className={`fas fa-circle-dot ${recordAudio && isRecording ? 'text-red-500 animate-pulse' : ''}`}></i> {t('live.recordAudio')}
+               </label>
+               <label className="mt-4 flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer" title={t('live.checkQualityHint')}>
+                 <input type="checkbox" checked={checkQuality} onChange={e => setCheckQuality(e.target.checked)} />
+                 <i className="fas fa-spell-check"></i> {t('live.checkQuality')}
+               </label>
+               <div className="mt-4">
+                 <ReplayPanel isRecording={isRecording} captureStream={captureStream} hasCapture={!!lastCapture} onCaptureStreamChange={setCaptureStream} onSaveCapture={saveCapture} onReplay={replayCapture} />
+               </div>
             </div>
           </div>
         </div>
 
         {/* History Column */}
-        <div className="lg:col-span-7 flex flex-col bg-white dark:bg-[#111827] rounded-[2.5rem] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden">
+        <div className="lg:col-span-7 h-[75vh] lg:h-[calc(100vh-9rem)] flex flex-col bg-white dark:bg-[#111827] rounded-[2.5rem] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden">
           <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between bg-slate-50/50 dark:bg-slate-800/20 backdrop-blur-sm">
             <div className="flex items-center gap-4">
               <div className="w-10 h-10 rounded-xl bg-slate-900 dark:bg-slate-700 flex items-center justify-center text-white shadow-lg"><i className="fas fa-list-ul"></i></div>
               <div>
-                <h2 className="text-lg font-black dark:text-white leading-none">Session Transcript</h2>
-                <p className="text-[10px] font-bold text-slate-400 dark:text-slate-600 uppercase tracking-widest mt-1">Permanent record of class dialogue</p>
+                <h2 className="text-lg font-black dark:text-white leading-none">{t('history.title')}</h2>
+                <p className="text-[10px] font-bold text-slate-400 dark:text-slate-600 uppercase tracking-widest mt-1">
+                  {activeSession ? `${activeSession.courseCode ? `${activeSession.courseCode} • ` : ''}${activeSession.name}` : t('history.subtitle')}
+                </p>
               </div>
             </div>
             <div className="flex items-center gap-2">
-              <button onClick={exportTranscript} className="p-2.5 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:shadow-md transition-all active:scale-95" title="Export as Text">
+              <button onClick={openAudienceView} className="p-2.5 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:shadow-md transition-all active:scale-95" title={t('toolbar.audience')}>
+                <i className="fas fa-display"></i>
+              </button>
+              <button onClick={() => setShowBroadcastPanel(true)} className={`p-2.5 rounded-xl border transition-all active:scale-95 hover:shadow-md ${broadcastRoom ? 'bg-green-500/10 border-green-500/40 text-green-500' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300'}`} title={broadcastRoom ? t('toolbar.broadcasting', { code: broadcastRoom.code }) : t('toolbar.broadcast')}>
+                <i className="fas fa-tower-broadcast"></i>
+              </button>
+              <button onClick={() => setShowGlossaryEditor(true)} className="p-2.5 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:shadow-md transition-all active:scale-95" title={t('toolbar.glossary')}>
+                <i className="fas fa-book"></i>
+              </button>
+              <button onClick={() => setShowSessionBrowser(true)} className="p-2.5 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:shadow-md transition-all active:scale-95" title={t('toolbar.archive')}>
+                <i className="fas fa-folder-open"></i>
+              </button>
+              <button onClick={() => setShowSummaryPanel(true)} disabled={!activeSession || transcripts.length === 0} className="p-2.5 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:shadow-md transition-all active:scale-95 disabled:opacity-50" title={t('toolbar.summary')}>
+                <i className={`fas ${summarizing ? 'fa-spinner fa-spin' : 'fa-clipboard-list'}`}></i>
+              </button>
+              <button onClick={() => setShowUsagePanel(true)} className={`p-2.5 rounded-xl border transition-all active:scale-95 hover:shadow-md ${budgetState === 'exceeded' ? 'bg-red-500/10 border-red-500/40 text-red-500' : budgetState === 'warn' ? 'bg-amber-500/10 border-amber-500/40 text-amber-500' : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300'}`} title={t('toolbar.usage')}>
+                <i className="fas fa-gauge-high"></i>
+              </button>
+              <button onClick={() => setShowShortcutHelp(true)} className="p-2.5 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:shadow-md transition-all active:scale-95" title={`${t('toolbar.shortcuts')} (${formatCombo(shortcuts.help)})`}>
+                <i className="fas fa-keyboard"></i>
+              </button>
+              <button onClick={() => setShowExportDialog(true)} disabled={transcripts.length === 0} className="p-2.5 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:shadow-md transition-all active:scale-95 disabled:opacity-50" title={t('toolbar.export')}>
                 <i className="fas fa-file-export"></i>
               </button>
-              <button onClick={clearHistory} className="p-2.5 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-all active:scale-95" title="Clear All">
+              <button onClick={clearHistory} className="p-2.5 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-all active:scale-95" title={t('toolbar.clear')}>
                 <i className="fas fa-trash-alt"></i>
               </button>
             </div>
           </div>
 
-          <div ref={scrollRef} className="flex-1 overflow-y-auto p-8 space-y-12 scroll-smooth bg-slate-50/20 dark:bg-transparent">
-            {transcripts.length === 0 ? (
+          {transcripts.length > 0 && (
+            <TranscriptSearchBar
+              filters={filters}
+              languages={transcriptLanguages}
+              hitCount={hits.length}
+              hitIndex={hitIndex}
+              shownCount={visibleEntries.length}
+              totalCount={transcripts.length}
+              flaggedCount={flaggedCount}
+              onChange={setFilters}
+              onStep={stepSearchHit}
+            />
+          )}
+
+          <VirtualList
+            items={visibleEntries}
+            itemKey={entryKey}
+            estimatedHeight={180}
+            gap={48}
+            scrollRef={scrollRef}
+            jumpTo={jumpTo}
+            className="flex-1 min-h-0 overflow-y-auto p-8 scroll-smooth bg-slate-50/20 dark:bg-transparent"
+            empty={transcripts.length === 0 ? (
               <div className="h-full flex flex-col items-center justify-center text-slate-300 dark:text-slate-800 gap-6 opacity-60">
                 <div className="w-24 h-24 rounded-full bg-slate-100 dark:bg-slate-800/50 flex items-center justify-center text-5xl"><i className="fas fa-ghost"></i></div>
                 <div className="text-center">
-                  <p className="text-xl font-black uppercase tracking-tighter">Transcript Empty</p>
-                  <p className="text-sm font-bold opacity-70">Begin speaking to generate history</p>
+                  <p className="text-xl font-black uppercase tracking-tighter">{t('history.empty')}</p>
+                  <p className="text-sm font-bold opacity-70">{t('history.emptyHint')}</p>
                 </div>
               </div>
             ) : (
-              transcripts.map((entry, idx) => (
-                <div key={entry.id} className="relative group flex flex-col gap-4 animate-fadeIn">
-                  {idx > 0 && <div className="absolute -top-8 left-12 w-px h-8 bg-slate-100 dark:bg-slate-800"></div>}
-                  <div className="flex items-start gap-6">
-                    <div className="flex flex-col items-center gap-2 pt-1">
-                      <button onClick={() => toggleRole(entry.id)} className={`w-12 h-12 rounded-2xl flex items-center justify-center text-xl shadow-lg transition-all active:scale-90 ${entry.role === 'Professor' ? `${activeAccent.bg} text-white shadow-blue-500/20` : 'bg-slate-800 text-white shadow-slate-900/20'}`} title="Switch Role Label">
-                        <i className={`fas ${entry.role === 'Professor' ? 'fa-user-tie' : 'fa-user-graduate'}`}></i>
-                      </button>
-                      <span className="text-[9px] font-black uppercase text-slate-400 dark:text-slate-600 tracking-tighter">{entry.role === 'Professor' ? 'Teacher' : 'Student'}</span>
-                    </div>
-                    <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div className="bg-white dark:bg-slate-800/50 p-6 rounded-[1.5rem] border border-slate-100 dark:border-slate-800 shadow-sm relative group/bubble">
-                         <div className="text-[9px] font-black text-slate-400 dark:text-slate-600 uppercase tracking-widest mb-2 flex justify-between">
-                            <span>{entry.sourceLang === 'Thai' ? 'Source: Thai' : 'Source: Chinese'}</span>
-                            <span className="opacity-0 group-hover/bubble:opacity-100 transition-opacity">{new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                         </div>
-                         <p className="text-slate-700 dark:text-slate-300 font-medium leading-relaxed">{entry.text}</p>
-                      </div>
-                      <div className={`p-6 rounded-[1.5rem] border shadow-md relative group/bubble transition-all ${theme === 'dark' ? 'bg-blue-900/5 border-blue-900/20' : 'bg-blue-50/30 border-blue-100/50'}`}>
-                        <div className="text-[9px] font-black text-blue-500/70 dark:text-blue-400 uppercase tracking-widest mb-2 flex justify-between items-center">
-                          <span>Translation</span>
-                          <button onClick={() => copyToClipboard(entry.translation, entry.id)} className="p-1 hover:text-blue-600 transition-colors">
-                            <i className={`fas ${copiedId === entry.id ? 'fa-check text-green-500' : 'fa-copy'}`}></i>
-                          </button>
-                        </div>
-                        <p className="text-slate-900 dark:text-blue-50 font-bold leading-relaxed">{entry.translation}</p>
-                        {copiedId === entry.id && <span className="absolute top-0 right-12 mt-1.5 bg-slate-900 text-white text-[8px] px-2 py-1 rounded-lg animate-fadeIn z-20">Copied</span>}
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              ))
+              <p className="text-center text-xs font-black uppercase tracking-widest text-slate-300 dark:text-slate-700 pt-12">{t('history.noMatches')}</p>
             )}
-          </div>
+            renderItem={(entry, idx) => (
+              <TranscriptBubble
+                entry={entry}
+                showConnector={idx > 0}
+                animate={entry === transcripts[transcripts.length - 1]}
+                accentBg={activeAccent.bg}
+                theme={theme}
+                copied={copiedId === entry.id}
+                playingTrack={playingAudio?.entryId === entry.id ? playingAudio.track : null}
+                playingSegment={playingAudio?.entryId === entry.id ? playingAudio.segment ?? null : null}
+                query={searchQuery}
+                flash={flash?.id === entry.id}
+                flashSegment={flash?.id === entry.id ? flash.segment ?? null : null}
+                onToggleRole={toggleRole}
+                onCopy={copyToClipboard}
+                onPlay={playEntryAudio}
+                onEdit={editEntry}
+                onRetranslate={retranslateEntryText}
+                onMarkReviewed={markReviewed}
+                romanization={romanization}
+                onToggleRomanization={toggleRomanization}
+              />
+            )}
+          />
+
+          <TypedInputBar
+            live={isRecording}
+            turnInProgress={!!(currentInput || currentOutput)}
+            speak={speakTyped}
+            accentBg={activeAccent.bg}
+            onSpeakChange={setSpeakTyped}
+            onSend={sendTypedText}
+          />
         </div>
       </main>
 
@@ -466,21 +1413,99 @@ const App: React.FC = () => {
         <div className="flex items-center gap-6 text-[10px] font-black uppercase tracking-widest">
           <div className="flex items-center gap-2">
             <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-            <span>System Active</span>
+            <span>{t('footer.active')}</span>
           </div>
-          <span>Role: {activeRole === 'Professor' ? 'Teacher Mode' : 'Student Mode'}</span>
-          <span className="hidden sm:inline">| Voice: {voiceGender}</span>
+          <span>{t('footer.role', { role: t(`roleMode.${activeRole as RoleMode}`) })}</span>
+          <span className="hidden sm:inline">| {t('footer.voice', { voice: t(`voice.${voiceGender as VoiceGender}`) })}</span>
         </div>
         <div className="text-[9px] md:text-[10px] font-black tracking-[0.1em] md:tracking-[0.2em] uppercase text-center md:text-right">
           EduTranslate Live • Developed and Copyright © 2026 by Dr. Pattaroj Kamonrojsiri. All Rights Reserved.
         </div>
       </footer>
 
+      {showSessionBrowser && (
+        <SessionBrowser
+          sessions={sessions}
+          activeSessionId={activeSession?.id ?? null}
+          accentBg={activeAccent.bg}
+          onOpen={(session) => {
+            if (isRecording) { setErrorMessage(t('error.stopBeforeOpen')); return; }
+            openSession(session); setShowSessionBrowser(false);
+          }}
+          onCreate={createClassSession}
+          onUpdate={updateActiveSession}
+          onDelete={removeSession}
+          onImport={importSession}
+          onClose={() => setShowSessionBrowser(false)}
+        />
+      )}
+
+      {showGlossaryEditor && (
+        <GlossaryEditor
+          glossary={glossary}
+          accentBg={activeAccent.bg}
+          isRecording={isRecording}
+          onChange={updateGlossaryTerms}
+          onError={setErrorMessage}
+          onClose={() => setShowGlossaryEditor(false)}
+        />
+      )}
+
+      {showExportDialog && (
+        <ExportDialog
+          session={exportSession}
+          accentBg={activeAccent.bg}
+          onError={setErrorMessage}
+          onClose={() => setShowExportDialog(false)}
+        />
+      )}
+
+      {showShortcutHelp && (
+        <ShortcutHelp
+          bindings={shortcuts}
+          onChange={setShortcuts}
+          onClose={() => setShowShortcutHelp(false)}
+        />
+      )}
+
+      {showSummaryPanel && activeSession && (
+        <SummaryPanel
+          session={activeSession}
+          busy={summarizing}
+          accentBg={activeAccent.bg}
+          onGenerate={summarizeActiveSession}
+          onClose={() => setShowSummaryPanel(false)}
+        />
+      )}
+
+      {showUsagePanel && (
+        <UsagePanel
+          session={sessionUsage}
+          totals={usageTotals}
+          settings={usageSettings}
+          onChange={setUsageSettings}
+          onResetTotals={() => setUsageTotals({ ...EMPTY_USAGE, since: Date.now() })}
+          onClose={() => setShowUsagePanel(false)}
+        />
+      )}
+
+      {showBroadcastPanel && (
+        <BroadcastPanel
+          room={broadcastRoom}
+          listeners={broadcastListeners}
+          busy={broadcastBusy}
+          accentBg={activeAccent.bg}
+          onStart={startBroadcast}
+          onStop={stopBroadcast}
+          onClose={() => setShowBroadcastPanel(false)}
+        />
+      )}
+
       {errorMessage && (
         <div className="fixed bottom-10 left-4 right-4 md:left-1/2 md:-translate-x-1/2 bg-red-600 text-white px-6 py-4 rounded-[1.5rem] shadow-2xl flex items-center gap-4 animate-bounce z-[100]">
           <i className="fas fa-exclamation-circle text-2xl"></i>
           <div className="flex-1">
-            <p className="font-black uppercase text-[10px] tracking-widest">System Alert</p>
+            <p className="font-black uppercase text-[10px] tracking-widest">{t('app.alert')}</p>
             <p className="text-xs font-medium opacity-90">{errorMessage}</p>
           </div>
           <button onClick={() => setErrorMessage('')} className="p-2 hover:bg-white/10 rounded-full"><i className="fas fa-times"></i></button>
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { CaptionSnapshot, LanguageColumns, TranscriptEntry } from '../types';
+import { subscribeToCaptions } from '../services/captionChannel';
+import { useI18n } from './I18nProvider';
+
+type AudienceTheme = 'dark' | 'light' | 'contrast';
+
+const THEMES: Record<AudienceTheme, { page: string; source: string; translation: string; muted: string; toolbar: string }> = {
+  dark: { page: 'bg-[#0B0F1A]', source: 'text-slate-300', translation: 'text-white', muted: 'text-slate-600', toolbar: 'bg-slate-800/90 text-slate-300' },
+  light: { page: 'bg-white', source: 'text-slate-600', translation: 'text-slate-900', muted: 'text-slate-300', toolbar: 'bg-slate-100/90 text-slate-600' },
+  contrast: { page: 'bg-black', source: 'text-white', translation: 'text-yellow-300', muted: 'text-neutral-500', toolbar: 'bg-neutral-900 text-yellow-300 border border-yellow-300' },
+};
+
+const RECENT_LINES = 3;
+
+/** Projector caption window, opened with ?view=audience and fed by the main window. */
+const AudienceView: React.FC = () => {
+  const { t } = useI18n();
+  const [snapshot, setSnapshot] = useState<CaptionSnapshot | null>(null);
+  const [language, setLanguage] = useState<LanguageColumns>(() => (localStorage.getItem('edutranslate_audience_language') as LanguageColumns) || 'both');
+  const [fontSize, setFontSize] = useState(() => Number(localStorage.getItem('edutranslate_audience_font_size')) || 48);
+  const [theme, setTheme] = useState<AudienceTheme>(() => (localStorage.getItem('edutranslate_audience_theme') as AudienceTheme) || 'dark');
+
+  useEffect(() => subscribeToCaptions(setSnapshot), []);
+  useEffect(() => { localStorage.setItem('edutranslate_audience_language', language); }, [language]);
+  useEffect(() => { localStorage.setItem('edutranslate_audience_font_size', String(fontSize)); }, [fontSize]);
+  useEffect(() => { localStorage.setItem('edutranslate_audience_theme', theme); }, [theme]);
+  useEffect(() => { document.title = t('audience.title'); }, [t]);
+
+  const colors = THEMES[theme];
+  const showSource = language !== 'translation';
+  const showTranslation = language !== 'source';
+
+  const renderLines = (text: string, translation: string, size: number, live: boolean) => (
+    <>
+      {showSource && text && <p className={`${live ? colors.source : colors.muted} font-medium leading-snug`} style={{ fontSize: showTranslation ? size * 0.7 : size }}>{text}</p>}
+      {showTranslation && translation && <p className={`${live ? colors.translation : colors.muted} font-bold leading-snug`} style={{ fontSize: size }}>{translation}</p>}
+    </>
+  );
+
+  const recent: TranscriptEntry[] = snapshot ? snapshot.recent.slice(-RECENT_LINES) : [];
+  const hasLive = !!snapshot && !!(snapshot.currentInput || snapshot.currentOutput);
+  const chip = (active: boolean) => `px-3 py-1.5 rounded-lg text-xs font-black uppercase tracking-widest ${active ? 'bg-blue-600 text-white' : 'opacity-70 hover:opacity-100'}`;
+
+  return (
+    <div className={`min-h-screen flex flex-col justify-end gap-10 p-12 font-sans ${colors.page} group`}>
+      <div className={`fixed top-4 right-4 flex items-center gap-2 p-2 rounded-xl opacity-0 group-hover:opacity-100 transition-opacity ${colors.toolbar}`}>
+        {(['source', 'both', 'translation'] as LanguageColumns[]).map(l => (
+          <button key={l} onClick={() => setLanguage(l)} className={chip(language === l)}>{t(`columns.${l}`)}</button>
+        ))}
+        <span className="w-px h-6 bg-current opacity-30 mx-1"></span>
+        <button onClick={() => setFontSize(s => Math.max(24, s - 8))} className={chip(false)} title={t('audience.smaller')}><i className="fas fa-minus"></i></button>
+        <span className="text-xs font-black w-10 text-center">{fontSize}</span>
+        <button onClick={() => setFontSize(s => Math.min(120, s + 8))} className={chip(false)} title={t('audience.larger')}><i className="fas fa-plus"></i></button>
+        <span className="w-px h-6 bg-current opacity-30 mx-1"></span>
+        {(['dark', 'light', 'contrast'] as AudienceTheme[]).map(option => (
+          <button key={option} onClick={() => setTheme(option)} className={chip(theme === option)} title={t(`audience.theme.${option}`)}>
+            <i className={`fas ${option === 'dark' ? 'fa-moon' : option === 'light' ? 'fa-sun' : 'fa-circle-half-stroke'}`}></i>
+          </button>
+        ))}
+      </div>
+
+      {!snapshot ? (
+        <p className={`${colors.muted} text-3xl font-black uppercase tracking-widest text-center self-center my-auto`}>{t('audience.waiting')}</p>
+      ) : (
+        <>
+          <div className="flex flex-col gap-8">
+            {recent.map(entry => (
+              <div key={entry.id} className="flex flex-col gap-2">{renderLines(entry.text, entry.translation, fontSize * 0.6, false)}</div>
+            ))}
+          </div>
+          <div className="flex flex-col gap-4 min-h-[30vh] justify-end">
+            {hasLive
+              ? renderLines(snapshot.currentInput, snapshot.currentOutput, fontSize, true)
+              : <p className={`${colors.muted} text-xl font-black uppercase tracking-widest`}>{snapshot.isLive ? t('audience.listening') : snapshot.sessionName}</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AudienceView;
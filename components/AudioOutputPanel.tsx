@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { PlaybackSettings } from '../types';
+import { listOutputDevices, MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE, supportsOutputSelection } from '../services/audioOutput';
+import { useI18n } from './I18nProvider';
+
+interface AudioOutputPanelProps {
+  settings: PlaybackSettings;
+  /** Translated audio is playing or scheduled. */
+  playing: boolean;
+  onChange: (settings: PlaybackSettings) => void;
+  onStop: () => void;
+}
+
+const AudioOutputPanel: React.FC<AudioOutputPanelProps> = ({ settings, playing, onChange, onStop }) => {
+  const { t } = useI18n();
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const canSelectOutput = supportsOutputSelection();
+
+  useEffect(() => {
+    if (!canSelectOutput) return;
+    const refresh = () => listOutputDevices().then(setDevices).catch(e => console.error('Failed to list outputs:', e));
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [canSelectOutput]);
+
+  const labelClass = 'flex flex-col gap-1 text-[9px] font-black uppercase tracking-widest text-slate-400';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer" title={t('output.captionsOnlyHint')}>
+          <input type="checkbox" checked={settings.captionsOnly} onChange={e => onChange({ ...settings, captionsOnly: e.target.checked })} />
+          <i className="fas fa-closed-captioning"></i> {t('output.captionsOnly')}
+        </label>
+        <button onClick={onStop} disabled={!playing} className="flex items-center gap-2 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 enabled:hover:text-red-500 disabled:opacity-50">
+          <i className="fas fa-stop"></i> {t('output.stop')}
+        </button>
+      </div>
+      {!settings.captionsOnly && (
+        <div className="grid grid-cols-2 gap-4">
+          <label className={labelClass}>
+            {t('output.volume', { value: Math.round(settings.volume * 100) })}
+            <input type="range" min={0} max={1} step={0.05} value={settings.volume} onChange={e => onChange({ ...settings, volume: Number(e.target.value) })} />
+          </label>
+          <label className={labelClass}>
+            {t('output.rate', { value: settings.rate.toFixed(2) })}
+            <input type="range" min={MIN_PLAYBACK_RATE} max={MAX_PLAYBACK_RATE} step={0.05} value={settings.rate} onChange={e => onChange({ ...settings, rate: Number(e.target.value) })} />
+          </label>
+          {canSelectOutput && (
+            <label className={`${labelClass} col-span-2`}>
+              {t('output.device')}
+              <select
+                value={settings.sinkId}
+                onChange={e => onChange({ ...settings, sinkId: e.target.value })}
+                className="w-full px-2 py-1.5 rounded-lg bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-[11px] font-bold normal-case tracking-normal text-slate-700 dark:text-slate-200 outline-none"
+              >
+                <option value="">{t('output.defaultDevice')}</option>
+                {devices.map((d, i) => <option key={d.deviceId} value={d.deviceId}>{d.label || t('output.deviceFallback', { index: i + 1 })}</option>)}
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioOutputPanel;
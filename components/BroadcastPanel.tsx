@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { RelayRoom } from '../types';
+import { DEFAULT_RELAY_URL, defaultStudentUrl, studentJoinUrl } from '../services/classroomRelay';
+import { useI18n } from './I18nProvider';
+
+interface BroadcastPanelProps {
+  room: RelayRoom | null;
+  listeners: number;
+  busy: boolean;
+  accentBg: string;
+  onStart: (serverUrl: string) => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const BroadcastPanel: React.FC<BroadcastPanelProps> = ({ room, listeners, busy, accentBg, onStart, onStop, onClose }) => {
+  const { t } = useI18n();
+  const [serverUrl, setServerUrl] = useState(() => localStorage.getItem('edutranslate_relay_url') || DEFAULT_RELAY_URL);
+  const [studentUrl, setStudentUrl] = useState(() => localStorage.getItem('edutranslate_student_url') || defaultStudentUrl());
+  const [qrCode, setQrCode] = useState('');
+  const joinUrl = room ? studentJoinUrl(room, studentUrl) : '';
+  // Phones cannot reach a localhost address, so the students' link needs the computer's network address.
+  const isLocalhost = (() => {
+    try { return ['localhost', '127.0.0.1', '[::1]'].includes(new URL(studentUrl).hostname); } catch (e) { return false; }
+  })();
+
+  useEffect(() => {
+    if (!joinUrl) { setQrCode(''); return; }
+    let cancelled = false;
+    QRCode.toDataURL(joinUrl, { margin: 1, width: 320 })
+      .then(url => { if (!cancelled) setQrCode(url); })
+      .catch(e => console.error('QR code failed:', e));
+    return () => { cancelled = true; };
+  }, [joinUrl]);
+
+  const start = () => {
+    localStorage.setItem('edutranslate_relay_url', serverUrl);
+    localStorage.setItem('edutranslate_student_url', studentUrl);
+    onStart(serverUrl);
+  };
+
+  const inputClass = 'w-full px-4 py-2.5 rounded-xl bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-sm text-slate-800 dark:text-slate-200 outline-none';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-lg bg-white dark:bg-[#111827] rounded-[2rem] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-fadeIn" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-black dark:text-white leading-none">{t('toolbar.broadcast')}</h2>
+            <p className="text-[10px] font-bold text-slate-400 dark:text-slate-600 uppercase tracking-widest mt-1">{t('broadcast.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="p-2 w-10 h-10 rounded-xl text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"><i className="fas fa-times"></i></button>
+        </div>
+        {!room ? (
+          <div className="p-8 flex flex-col gap-6">
+            <div className="space-y-2">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-tighter">{t('broadcast.server')}</span>
+              <input className={inputClass} value={serverUrl} onChange={e => setServerUrl(e.target.value)} placeholder={DEFAULT_RELAY_URL} />
+              <p className="text-[10px] font-bold text-slate-400">{t('broadcast.serverHint')} <code>npm run relay</code></p>
+            </div>
+            <div className="space-y-2">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-tighter">{t('broadcast.studentUrl')}</span>
+              <input className={inputClass} value={studentUrl} onChange={e => setStudentUrl(e.target.value)} placeholder="http://192.168.1.20:3000/" />
+              <p className="text-[10px] font-bold text-slate-400">{t('broadcast.studentUrlHint')}</p>
+              {isLocalhost && <p className="text-[10px] font-bold text-amber-500">{t('broadcast.localhostHint')}</p>}
+            </div>
+            <button onClick={start} disabled={busy || !serverUrl.trim() || !studentUrl.trim()} className={`${accentBg} hover:brightness-110 text-white px-6 py-3 rounded-xl font-bold shadow-lg flex items-center justify-center gap-2 transition-all active:scale-95 disabled:opacity-50`}>
+              <i className={`fas ${busy ? 'fa-spinner fa-spin' : 'fa-tower-broadcast'}`}></i> {t('broadcast.open')}
+            </button>
+          </div>
+        ) : (
+          <div className="p-8 flex flex-col items-center gap-5">
+            <p className="text-5xl font-black tracking-[0.3em] dark:text-white">{room.code}</p>
+            {qrCode && <img src={qrCode} alt={t('broadcast.joinRoom', { code: room.code })} className="w-56 h-56 rounded-2xl border border-slate-100 dark:border-slate-800 bg-white" />}
+            <a href={joinUrl} target="_blank" rel="noreferrer" className="text-[11px] font-bold text-slate-400 break-all text-center hover:underline">{joinUrl}</a>
+            <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full bg-green-500/10 text-green-500">
+              <i className="fas fa-users"></i> {t('broadcast.listeners', { count: listeners })}
+            </div>
+            <button onClick={onStop} disabled={busy} className="w-full bg-red-500 hover:bg-red-600 text-white px-6 py-3 rounded-xl font-bold shadow-lg shadow-red-500/20 flex items-center justify-center gap-2 transition-all active:scale-95 disabled:opacity-50">
+              <i className="fas fa-stop"></i> {t('broadcast.close')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BroadcastPanel;
@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import { LanguageColumns, ExportFormat, LectureSession } from '../types';
+import { buildExport, downloadBlob, ExportError, exportFilename, filterEntries } from '../services/exportService';
+import { fromLocalInput, toLocalInput } from '../services/dateInput';
+import { entryTargetLang } from '../services/languageService';
+import { hasRomanization } from '../services/romanization';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface ExportDialogProps {
+  session: LectureSession;
+  accentBg: string;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+const FORMATS: { id: ExportFormat; icon: string }[] = [
+  { id: 'txt', icon: 'fas fa-file-lines' },
+  { id: 'srt', icon: 'fas fa-closed-captioning' },
+  { id: 'vtt', icon: 'fas fa-closed-captioning' },
+  { id: 'md', icon: 'fab fa-markdown' },
+  { id: 'docx', icon: 'fas fa-file-word' },
+  { id: 'json', icon: 'fas fa-file-code' },
+  { id: 'wav', icon: 'fas fa-file-audio' },
+];
+
+const COLUMNS: { id: LanguageColumns; labelKey: MessageKey }[] = [
+  { id: 'both', labelKey: 'columns.both' },
+  { id: 'source', labelKey: 'columns.sourceOnly' },
+  { id: 'translation', labelKey: 'columns.translationOnly' },
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ session, accentBg, onError, onClose }) => {
+  const { t, locale } = useI18n();
+  const [format, setFormat] = useState<ExportFormat>(() => (localStorage.getItem('edutranslate_export_format') as ExportFormat) || 'txt');
+  const [columns, setColumns] = useState<LanguageColumns>('both');
+  const [from, setFrom] = useState(() => session.entries.length ? toLocalInput(session.entries[0].timestamp) : '');
+  const [to, setTo] = useState(() => session.entries.length ? toLocalInput(session.entries[session.entries.length - 1].timestamp) : '');
+  const [includeSummary, setIncludeSummary] = useState(true);
+  const [includeRevisions, setIncludeRevisions] = useState(false);
+  const hasRevisions = useMemo(() => session.entries.some(e => e.revisions?.length), [session.entries]);
+  const [includeRomanization, setIncludeRomanization] = useState(false);
+  const canRomanize = useMemo(() => session.entries.some(e => hasRomanization(e.sourceLang) || hasRomanization(entryTargetLang(e))), [session.entries]);
+  const [busy, setBusy] = useState(false);
+
+  const range = { from: fromLocalInput(from), to: fromLocalInput(to, true) };
+  // JSON always carries the whole session, whatever the range.
+  const count = useMemo(() => (format === 'json' ? session.entries : filterEntries(session.entries, range.from, range.to)).length, [session.entries, format, range.from, range.to]);
+
+  const runExport = async () => {
+    setBusy(true);
+    try {
+      localStorage.setItem('edutranslate_export_format', format);
+      const { blob, filename } = await buildExport(session, { format, columns, includeSummary, includeRevisions, includeRomanization, locale, ...range }, t);
+      downloadBlob(blob, filename);
+      onClose();
+    } catch (err: any) {
+      console.error('Export failed:', err);
+      const message = err instanceof ExportError ? t(`export.error.${err.code}`) : err.message || t('common.unknown');
+      onError(t('error.export', { message }));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const chip = (active: boolean) => `px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all flex items-center justify-center gap-2 ${
+    active ? `${accentBg} text-white shadow-sm` : 'bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+  }`;
+  const inputClass = 'w-full px-4 py-2.5 rounded-xl bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-sm text-slate-800 dark:text-slate-200 outline-none';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-lg bg-white dark:bg-[#111827] rounded-[2rem] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-fadeIn" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-black dark:text-white leading-none">{t('export.title')}</h2>
+            <p className="text-[10px] font-bold text-slate-400 dark:text-slate-600 uppercase tracking-widest mt-1 truncate">{exportFilename(session, format)}</p>
+          </div>
+          <button onClick={onClose} className="p-2 w-10 h-10 rounded-xl text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"><i className="fas fa-times"></i></button>
+        </div>
+        <div className="p-8 flex flex-col gap-6">
+          <div className="space-y-2">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-tighter">{t('export.format')}</span>
+            <div className="grid grid-cols-3 gap-2">
+              {FORMATS.map(f => (
+                <button key={f.id} onClick={() => setFormat(f.id)} className={chip(format === f.id)}>
+                  <i className={f.icon}></i> {t(`export.format.${f.id}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-tighter">{t('export.columns')}</span>
+            <div className="grid grid-cols-3 gap-2">
+              {COLUMNS.map(c => (
+                <button key={c.id} disabled={format === 'json' || format === 'wav'} onClick={() => setColumns(c.id)} className={`${chip(columns === c.id)} disabled:opacity-40`}>{t(c.labelKey)}</button>
+              ))}
+            </div>
+            {format === 'json' && <p className="text-[10px] font-bold text-slate-400">{t('export.jsonHint')}</p>}
+            {format === 'wav' && <p className="text-[10px] font-bold text-slate-400">{t('export.wavHint')}</p>}
+          </div>
+          {session.summary && (format === 'txt' || format === 'md' || format === 'docx') && (
+            <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+              <input type="checkbox" checked={includeSummary} onChange={e => setIncludeSummary(e.target.checked)} />
+              {t('export.includeSummary')}
+            </label>
+          )}
+          {hasRevisions && format !== 'srt' && format !== 'vtt' && format !== 'wav' && format !== 'json' && (
+            <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+              <input type="checkbox" checked={includeRevisions} onChange={e => setIncludeRevisions(e.target.checked)} />
+              {t('export.includeRevisions')}
+            </label>
+          )}
+          {canRomanize && format !== 'json' && format !== 'wav' && (
+            <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+              <input type="checkbox" checked={includeRomanization} onChange={e => setIncludeRomanization(e.target.checked)} />
+              {t('export.includeRomanization')}
+            </label>
+          )}
+          {format !== 'json' && (
+            <div className="space-y-2">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-tighter">{t('export.range')}</span>
+              <div className="grid grid-cols-2 gap-2">
+                <input type="datetime-local" className={inputClass} value={from} onChange={e => setFrom(e.target.value)} />
+                <input type="datetime-local" className={inputClass} value={to} onChange={e => setTo(e.target.value)} />
+              </div>
+            </div>
+          )}
+          <button onClick={runExport} disabled={busy || count === 0} className={`${accentBg} hover:brightness-110 text-white px-6 py-3 rounded-xl font-bold shadow-lg flex items-center justify-center gap-2 transition-all active:scale-95 disabled:opacity-50`}>
+            <i className={`fas ${busy ? 'fa-spinner fa-spin' : 'fa-file-export'}`}></i> {count === 1 ? t('export.runOne') : t('export.run', { count })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
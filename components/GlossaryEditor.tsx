@@ -0,0 +1,107 @@
+import React, { useRef } from 'react';
+import { CourseGlossary, GlossaryTerm } from '../types';
+import { createTermId, glossaryToCsv, parseGlossaryCsv } from '../services/glossaryService';
+import { downloadBlob } from '../services/exportService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface GlossaryEditorProps {
+  glossary: CourseGlossary;
+  accentBg: string;
+  isRecording: boolean;
+  onChange: (terms: GlossaryTerm[]) => void;
+  onError: (message: string) => void;
+  onClose: () => void;
+}
+
+const COLUMNS: { key: keyof Omit<GlossaryTerm, 'id'>; labelKey: MessageKey }[] = [
+  { key: 'thai', labelKey: 'language.Thai' },
+  { key: 'chinese', labelKey: 'language.Chinese' },
+  { key: 'english', labelKey: 'language.English' },
+  { key: 'note', labelKey: 'glossary.note' },
+];
+
+const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ glossary, accentBg, isRecording, onChange, onError, onClose }) => {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { terms } = glossary;
+
+  const updateTerm = (id: string, key: keyof GlossaryTerm, value: string) => {
+    onChange(terms.map(term => term.id === id ? { ...term, [key]: value } : term));
+  };
+
+  const importCsv = async (file: File) => {
+    try {
+      const imported = parseGlossaryCsv(await file.text());
+      const seen = new Set(terms.map(term => `${term.thai}|${term.chinese}|${term.english}`));
+      onChange([...terms, ...imported.filter(term => !seen.has(`${term.thai}|${term.chinese}|${term.english}`))]);
+    } catch (err: any) {
+      console.error('Glossary import failed:', err);
+      onError(t('error.glossaryImport', { message: err.message || t('common.unknown') }));
+    }
+  };
+
+  const exportCsv = () => {
+    const blob = new Blob([glossaryToCsv(terms)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `Glossary_${glossary.courseCode || 'General'}.csv`);
+  };
+
+  const toolButton = 'px-4 py-2 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:shadow-md disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-4xl max-h-[85vh] flex flex-col bg-white dark:bg-[#111827] rounded-[2rem] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-fadeIn" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-black dark:text-white leading-none">{t('toolbar.glossary')}</h2>
+            <p className="text-[10px] font-bold text-slate-400 dark:text-slate-600 uppercase tracking-widest mt-1">
+              {glossary.courseCode || t('glossary.general')} • {t('glossary.count', { count: terms.length })}{isRecording && ` • ${t('glossary.nextConnect')}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => fileInputRef.current?.click()} className={toolButton} title={t('glossary.importCsv')}><i className="fas fa-file-import mr-1"></i> CSV</button>
+            <button onClick={exportCsv} disabled={terms.length === 0} className={toolButton} title={t('glossary.exportCsv')}><i className="fas fa-file-export mr-1"></i> CSV</button>
+            <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) importCsv(file);
+              e.target.value = '';
+            }} />
+            <button onClick={onClose} className="p-2 w-10 h-10 rounded-xl text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"><i className="fas fa-times"></i></button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-center">
+            {COLUMNS.map(c => (
+              <span key={c.key} className="px-2 text-[9px] font-black text-slate-400 dark:text-slate-600 uppercase tracking-widest">{t(c.labelKey)}</span>
+            ))}
+            <span></span>
+            {terms.map(term => (
+              <React.Fragment key={term.id}>
+                {COLUMNS.map(c => (
+                  <input
+                    key={c.key}
+                    value={term[c.key] || ''}
+                    onChange={e => updateTerm(term.id, c.key, e.target.value)}
+                    className="w-full px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-sm text-slate-800 dark:text-slate-200 outline-none focus:border-slate-400"
+                  />
+                ))}
+                <button onClick={() => onChange(terms.filter(other => other.id !== term.id))} className="p-2 rounded-xl text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20" title={t('glossary.remove')}>
+                  <i className="fas fa-trash-alt"></i>
+                </button>
+              </React.Fragment>
+            ))}
+          </div>
+          <button
+            onClick={() => onChange([...terms, { id: createTermId(), thai: '', chinese: '', english: '' }])}
+            className={`mt-4 ${accentBg} hover:brightness-110 text-white px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest flex items-center gap-2`}
+          >
+            <i className="fas fa-plus"></i> {t('glossary.add')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryEditor;
@@ -0,0 +1,52 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { UiLocale } from '../types';
+import { detectUiLocale, formatDate, formatDateTime, formatNumber, formatTime, isUiLocale, Translate, translate, UI_LOCALE_KEY } from '../services/i18n';
+
+interface I18nContextValue {
+  locale: UiLocale;
+  setLocale: (locale: UiLocale) => void;
+  t: Translate;
+  time: (at: number, withSeconds?: boolean) => string;
+  date: (at: number) => string;
+  dateTime: (at: number) => string;
+  number: (value: number) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function useI18n(): I18nContextValue {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside I18nProvider');
+  return value;
+}
+
+/** Holds the interface language for every view and keeps it in sync across open windows. */
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<UiLocale>(detectUiLocale);
+
+  useEffect(() => {
+    localStorage.setItem(UI_LOCALE_KEY, locale);
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // The audience window follows a language change made in the main window.
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => { if (e.key === UI_LOCALE_KEY && isUiLocale(e.newValue)) setLocale(e.newValue); };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, []);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    time: (at, withSeconds) => formatTime(locale, at, withSeconds),
+    date: at => formatDate(locale, at),
+    dateTime: at => formatDateTime(locale, at),
+    number: value => formatNumber(locale, value),
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { LanguageId, LanguagePairs, SpeakerRole } from '../types';
+import { LANGUAGE_IDS, LANGUAGES } from '../constants';
+import { useI18n } from './I18nProvider';
+
+interface LanguagePairsPanelProps {
+  pairs: LanguagePairs;
+  isRecording: boolean;
+  onChange: (pairs: LanguagePairs) => void;
+}
+
+const ROLES: { role: SpeakerRole; icon: string }[] = [
+  { role: 'Professor', icon: 'fa-user-tie' },
+  { role: 'Student', icon: 'fa-user-graduate' },
+];
+
+const LanguagePairsPanel: React.FC<LanguagePairsPanelProps> = ({ pairs, isRecording, onChange }) => {
+  const { t } = useI18n();
+  const update = (role: SpeakerRole, side: 'source' | 'target', lang: LanguageId) => {
+    onChange({ ...pairs, [role]: { ...pairs[role], [side]: lang } });
+  };
+
+  const select = (role: SpeakerRole, side: 'source' | 'target') => (
+    <select
+      value={pairs[role][side]}
+      disabled={isRecording}
+      onChange={e => update(role, side, e.target.value as LanguageId)}
+      className="flex-1 min-w-0 px-2 py-1.5 rounded-lg bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-[11px] font-bold text-slate-700 dark:text-slate-200 outline-none disabled:opacity-50"
+    >
+      {LANGUAGE_IDS.map(id => <option key={id} value={id}>{t(`language.${id}`)} · {LANGUAGES[id].nativeName}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="flex flex-col gap-2" title={isRecording ? t('languagePairs.locked') : undefined}>
+      {ROLES.map(({ role, icon }) => (
+        <div key={role} className="flex items-center gap-2">
+          <span className="w-20 shrink-0 text-[10px] font-black uppercase tracking-widest text-slate-500"><i className={`fas ${icon} mr-1`}></i>{t(`role.${role}`)}</span>
+          {select(role, 'source')}
+          <i className={`fas fa-arrow-right text-[10px] ${pairs[role].source === pairs[role].target ? 'text-red-500' : 'text-slate-400'}`}></i>
+          {select(role, 'target')}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LanguagePairsPanel;
@@ -0,0 +1,102 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { InputHealth, InputSettings } from '../types';
+import { listInputDevices, MAX_INPUT_GAIN, measureLevel } from '../services/audioInput';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface MicrophonePanelProps {
+  settings: InputSettings;
+  isRecording: boolean;
+  analyser: AnalyserNode | null;
+  health: InputHealth;
+  onChange: (settings: InputSettings) => void;
+}
+
+const PROCESSING: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; labelKey: MessageKey }[] = [
+  { key: 'echoCancellation', labelKey: 'mic.echoCancellation' },
+  { key: 'noiseSuppression', labelKey: 'mic.noiseSuppression' },
+  { key: 'autoGainControl', labelKey: 'mic.autoGainControl' },
+];
+
+const HEALTH_ICONS: Record<Exclude<InputHealth, 'ok'>, string> = {
+  clipping: 'fa-triangle-exclamation',
+  quiet: 'fa-volume-low',
+  muted: 'fa-microphone-slash',
+  ended: 'fa-plug-circle-xmark',
+};
+
+// The meter spans -60 dBFS (empty) to 0 dBFS (full).
+const METER_FLOOR_DB = -60;
+
+const MicrophonePanel: React.FC<MicrophonePanelProps> = ({ settings, isRecording, analyser, health, onChange }) => {
+  const { t } = useI18n();
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices) return;
+    const refresh = () => listInputDevices().then(setDevices).catch(e => console.error('Failed to list microphones:', e));
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [isRecording]);
+
+  useEffect(() => {
+    const bar = barRef.current;
+    if (!bar) return;
+    if (!isRecording || !analyser) { bar.style.width = '0%'; return; }
+    const samples = new Float32Array(analyser.fftSize);
+    let frame: number;
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const { rmsDb, peak } = measureLevel(analyser, samples);
+      bar.style.width = `${Math.max(0, Math.min(1, 1 - rmsDb / METER_FLOOR_DB)) * 100}%`;
+      bar.style.backgroundColor = peak >= 0.99 ? 'rgb(239, 68, 68)' : rmsDb > -12 ? 'rgb(245, 158, 11)' : 'rgb(34, 197, 94)';
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [analyser, isRecording]);
+
+  const selectedMissing = !!settings.deviceId && devices.length > 0 && !devices.some(d => d.deviceId === settings.deviceId);
+  const labelClass = 'flex flex-col gap-1 text-[9px] font-black uppercase tracking-widest text-slate-400';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <label className={labelClass} title={isRecording ? t('mic.deviceLocked') : undefined}>
+        {t('mic.device')}
+        <select
+          value={selectedMissing ? '' : settings.deviceId}
+          disabled={isRecording}
+          onChange={e => onChange({ ...settings, deviceId: e.target.value })}
+          className="w-full px-2 py-1.5 rounded-lg bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-[11px] font-bold normal-case tracking-normal text-slate-700 dark:text-slate-200 outline-none disabled:opacity-50"
+        >
+          <option value="">{t('mic.defaultDevice')}</option>
+          {devices.map((d, i) => <option key={d.deviceId} value={d.deviceId}>{d.label || t('mic.deviceFallback', { index: i + 1 })}</option>)}
+        </select>
+      </label>
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {PROCESSING.map(({ key, labelKey }) => (
+          <label key={key} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={settings[key]} onChange={e => onChange({ ...settings, [key]: e.target.checked })} />
+            {t(labelKey)}
+          </label>
+        ))}
+      </div>
+      <label className={labelClass}>
+        {t('mic.gain', { value: settings.gain.toFixed(1) })}
+        <input type="range" min={0} max={MAX_INPUT_GAIN} step={0.1} value={settings.gain} onChange={e => onChange({ ...settings, gain: Number(e.target.value) })} />
+      </label>
+      <div className="h-1.5 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden" title={t('mic.level')}>
+        <div ref={barRef} className="h-full w-0 rounded-full transition-[width] duration-75"></div>
+      </div>
+      {isRecording && health !== 'ok' && (
+        <div className={`flex items-center gap-2 text-[10px] font-bold ${health === 'quiet' ? 'text-amber-500' : 'text-red-500'}`}>
+          <i className={`fas ${HEALTH_ICONS[health as Exclude<InputHealth, 'ok'>]}`}></i>
+          {t(`mic.health.${health as Exclude<InputHealth, 'ok'>}`)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MicrophonePanel;
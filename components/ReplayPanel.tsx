@@ -0,0 +1,56 @@
+import React, { useRef, useState } from 'react';
+import { REPLAY_SPEEDS } from '../services/liveReplay';
+import { useI18n } from './I18nProvider';
+
+interface ReplayPanelProps {
+  isRecording: boolean;
+  /** Server messages of the next run are captured for replay. */
+  captureStream: boolean;
+  /** A capture from the last run is ready to save. */
+  hasCapture: boolean;
+  onCaptureStreamChange: (capture: boolean) => void;
+  onSaveCapture: () => void;
+  onReplay: (file: File, speed: number) => void;
+}
+
+const ReplayPanel: React.FC<ReplayPanelProps> = ({ isRecording, captureStream, hasCapture, onCaptureStreamChange, onSaveCapture, onReplay }) => {
+  const { t } = useI18n();
+  const [speed, setSpeed] = useState(1);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const buttonClass = 'flex items-center gap-2 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-500 enabled:hover:text-slate-800 dark:enabled:hover:text-white disabled:opacity-50';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-3">
+        <label className={`flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 ${isRecording ? 'opacity-50' : 'cursor-pointer'}`} title={t('replay.captureHint')}>
+          <input type="checkbox" checked={captureStream} disabled={isRecording} onChange={e => onCaptureStreamChange(e.target.checked)} />
+          <i className="fas fa-file-waveform"></i> {t('replay.capture')}
+        </label>
+        <button onClick={onSaveCapture} disabled={!hasCapture || isRecording} className={buttonClass}>
+          <i className="fas fa-download"></i> {t('replay.save')}
+        </button>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <select
+          value={speed}
+          disabled={isRecording}
+          onChange={e => setSpeed(Number(e.target.value))}
+          className="px-2 py-1 rounded-lg bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-[11px] font-bold text-slate-700 dark:text-slate-200 outline-none disabled:opacity-50"
+          title={t('replay.speed')}
+        >
+          {REPLAY_SPEEDS.map(s => <option key={s} value={s}>{t('replay.speedOption', { value: s })}</option>)}
+        </select>
+        <button onClick={() => fileInputRef.current?.click()} disabled={isRecording} className={buttonClass} title={t('replay.replayHint')}>
+          <i className="fas fa-play"></i> {t('replay.replay')}
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onReplay(file, speed);
+          e.target.value = '';
+        }} />
+      </div>
+    </div>
+  );
+};
+
+export default ReplayPanel;
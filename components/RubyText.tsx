@@ -0,0 +1,50 @@
+import React, { useMemo } from 'react';
+import { LanguageId } from '../types';
+import { annotate } from '../services/romanization';
+import { matchRanges } from '../services/transcriptSearch';
+
+interface RubyTextProps {
+  text: string;
+  lang: LanguageId;
+  /** Search query to highlight; matches are marked in the base text, not the readings. */
+  query?: string;
+}
+
+/** Text with its Pinyin or Thai romanization set as ruby above it. */
+const RubyText: React.FC<RubyTextProps> = ({ text, lang, query = '' }) => {
+  const segments = useMemo(() => annotate(text, lang), [text, lang]);
+  const ranges = matchRanges(text, query);
+
+  // Slice [start, end) of the text with the parts inside search matches marked.
+  const marked = (start: number, end: number) => {
+    const parts: React.ReactNode[] = [];
+    let at = start;
+    ranges.filter(([s, e]) => s < end && e > start).forEach(([s, e]) => {
+      if (s > at) parts.push(text.slice(at, s));
+      const to = Math.min(e, end);
+      parts.push(<mark key={Math.max(s, at)} className="bg-yellow-200 dark:bg-yellow-500/40 text-inherit rounded px-0.5">{text.slice(Math.max(s, at), to)}</mark>);
+      at = to;
+    });
+    if (at < end) parts.push(text.slice(at, end));
+    return parts;
+  };
+
+  let offset = 0;
+  return (
+    <>
+      {segments.map((segment, i) => {
+        const start = offset;
+        offset += segment.text.length;
+        if (!segment.reading) return <React.Fragment key={i}>{marked(start, offset)}</React.Fragment>;
+        return (
+          <ruby key={i}>
+            {marked(start, offset)}
+            <rt className="text-[0.55em] font-medium tracking-normal text-slate-400 dark:text-slate-500 select-none">{segment.reading}</rt>
+          </ruby>
+        );
+      })}
+    </>
+  );
+};
+
+export default RubyText;
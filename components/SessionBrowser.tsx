@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import { LectureSession, SessionDetails } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface SessionBrowserProps {
+  sessions: LectureSession[];
+  activeSessionId: string | null;
+  accentBg: string;
+  onOpen: (session: LectureSession) => void;
+  onCreate: (details: SessionDetails) => void;
+  onUpdate: (details: SessionDetails) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+const emptyForm = { name: '', courseCode: '', participants: '' };
+
+const SessionBrowser: React.FC<SessionBrowserProps> = ({ sessions, activeSessionId, accentBg, onOpen, onCreate, onUpdate, onDelete, onImport, onClose }) => {
+  const { t, date } = useI18n();
+  const [form, setForm] = useState(emptyForm);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingActive, setEditingActive] = useState(false);
+
+  const toDetails = (): SessionDetails => ({
+    name: form.name.trim(),
+    courseCode: form.courseCode.trim(),
+    participants: form.participants.split(',').map(p => p.trim()).filter(Boolean),
+  });
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingActive) onUpdate(toDetails());
+    else onCreate(toDetails());
+    setForm(emptyForm);
+    setEditingActive(false);
+  };
+
+  const startEditing = (session: LectureSession) => {
+    setEditingActive(true);
+    setForm({ name: session.name, courseCode: session.courseCode, participants: session.participants.join(', ') });
+  };
+
+  const inputClass = 'w-full px-4 py-2.5 rounded-xl bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-sm text-slate-800 dark:text-slate-200 outline-none focus:border-slate-400';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-[85vh] flex flex-col bg-white dark:bg-[#111827] rounded-[2rem] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-fadeIn" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-black dark:text-white leading-none">{t('toolbar.archive')}</h2>
+            <p className="text-[10px] font-bold text-slate-400 dark:text-slate-600 uppercase tracking-widest mt-1">{t('archive.count', { count: sessions.length })}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:shadow-md" title={t('archive.importHint')}>
+              <i className="fas fa-file-import mr-1"></i> {t('archive.import')}
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }} />
+            <button onClick={onClose} className="p-2 w-10 h-10 rounded-xl text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"><i className="fas fa-times"></i></button>
+          </div>
+        </div>
+
+        <form onSubmit={submit} className="px-8 py-5 border-b border-slate-100 dark:border-slate-800 grid grid-cols-1 md:grid-cols-4 gap-3 bg-slate-50/50 dark:bg-slate-800/20">
+          <input className={inputClass} placeholder={t('archive.className')} value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+          <input className={inputClass} placeholder={t('archive.courseCode')} value={form.courseCode} onChange={e => setForm({ ...form, courseCode: e.target.value })} />
+          <input className={inputClass} placeholder={t('archive.participants')} value={form.participants} onChange={e => setForm({ ...form, participants: e.target.value })} />
+          <div className="flex gap-2">
+            <button type="submit" className={`flex-1 ${accentBg} text-white rounded-xl text-[10px] font-black uppercase tracking-widest hover:brightness-110`}>
+              {t(editingActive ? 'common.save' : 'archive.newClass')}
+            </button>
+            {editingActive && (
+              <button type="button" onClick={() => { setEditingActive(false); setForm(emptyForm); }} className="px-3 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-500"><i className="fas fa-undo"></i></button>
+            )}
+          </div>
+        </form>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {sessions.length === 0 ? (
+            <p className="text-center text-sm font-bold text-slate-300 dark:text-slate-700 py-12">{t('archive.empty')}</p>
+          ) : sessions.map(session => {
+            const isActive = session.id === activeSessionId;
+            return (
+              <div key={session.id} className={`flex items-center gap-4 p-4 rounded-2xl border transition-all ${isActive ? 'border-slate-300 dark:border-slate-600 bg-slate-50 dark:bg-slate-800/50' : 'border-transparent hover:bg-slate-50 dark:hover:bg-slate-800/30'}`}>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    {session.courseCode && <span className="text-[9px] font-black px-2 py-0.5 rounded-md bg-slate-900 dark:bg-slate-700 text-white uppercase tracking-widest">{session.courseCode}</span>}
+                    <p className="font-bold text-slate-800 dark:text-slate-200 truncate">{session.name}</p>
+                    {isActive && <span className="text-[9px] font-black text-green-500 uppercase tracking-widest">{t('archive.open')}</span>}
+                  </div>
+                  <p className="text-[10px] font-bold text-slate-400 dark:text-slate-600 uppercase tracking-widest mt-1 truncate">
+                    {date(session.createdAt)} • {t('archive.entries', { count: session.entries.length })}
+                    {session.participants.length > 0 && ` • ${session.participants.join(', ')}`}
+                  </p>
+                </div>
+                {isActive ? (
+                  <button onClick={() => startEditing(session)} className="p-2.5 rounded-xl text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800" title={t('archive.editDetails')}><i className="fas fa-pen"></i></button>
+                ) : (
+                  <button onClick={() => onOpen(session)} className="px-4 py-2 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:shadow-md" title={t('archive.openHint')}>
+                    {t('archive.openAction')}
+                  </button>
+                )}
+                <button onClick={() => onDelete(session.id)} className="p-2.5 rounded-xl text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20" title={t('archive.delete')}><i className="fas fa-trash-alt"></i></button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionBrowser;
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { ShortcutAction, ShortcutBindings } from '../types';
+import { comboFromEvent, DEFAULT_SHORTCUTS, formatCombo, SHORTCUT_ACTIONS } from '../services/shortcuts';
+import { useI18n } from './I18nProvider';
+
+interface ShortcutHelpProps {
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+}
+
+const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ bindings, onChange, onClose }) => {
+  const { t } = useI18n();
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  // While rebinding, the next combination is taken for the action; Escape cancels.
+  useEffect(() => {
+    if (!recording) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code === 'Escape') { setRecording(null); return; }
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+      // A combination belongs to one action; the previous owner is left unbound.
+      const next = { ...bindings };
+      (Object.keys(next) as ShortcutAction[]).forEach(action => { if (next[action] === combo) next[action] = ''; });
+      onChange({ ...next, [recording]: combo });
+      setRecording(null);
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [recording, bindings, onChange]);
+
+  useEffect(() => {
+    if (recording) return;
+    const onKeyDown = (e: KeyboardEvent) => { if (e.code === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [recording, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white dark:bg-[#111827] rounded-[2rem] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-fadeIn" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-black dark:text-white leading-none">{t('shortcuts.title')}</h2>
+            <p className="text-[10px] font-bold text-slate-400 dark:text-slate-600 uppercase tracking-widest mt-1">{t('shortcuts.subtitle')}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => onChange(DEFAULT_SHORTCUTS)} className="px-4 py-2 rounded-xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:shadow-md">
+              <i className="fas fa-undo mr-1"></i> {t('common.reset')}
+            </button>
+            <button onClick={onClose} className="p-2 w-10 h-10 rounded-xl text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"><i className="fas fa-times"></i></button>
+          </div>
+        </div>
+        <ul className="overflow-y-auto px-8 py-4 divide-y divide-slate-100 dark:divide-slate-800">
+          {SHORTCUT_ACTIONS.map(action => (
+            <li key={action} className="py-3 flex items-center justify-between gap-4">
+              <span className="text-sm font-medium text-slate-700 dark:text-slate-200">{t(`shortcuts.action.${action}` as `shortcuts.action.${ShortcutAction}`)}</span>
+              <button
+                onClick={() => setRecording(recording === action ? null : action)}
+                className={`min-w-[7rem] px-3 py-1.5 rounded-lg border text-[11px] font-mono font-bold transition-colors ${
+                  recording === action ? 'border-blue-500 text-blue-500 animate-pulse' : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-slate-400'
+                }`}
+                title={t('shortcuts.change')}
+              >
+                {recording === action ? t('shortcuts.pressKeys') : bindings[action] ? formatCombo(bindings[action]) : t('shortcuts.unset')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutHelp;
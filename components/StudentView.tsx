@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LanguageColumns, SpeakerRole } from '../types';
+import { DEFAULT_RELAY_URL, RelayCaption, RelayConnectionState, RelayEvent, subscribeToRoom } from '../services/classroomRelay';
+import { MessageKey } from '../services/i18n';
+import UiLanguageSwitcher from './UiLanguageSwitcher';
+import { useI18n } from './I18nProvider';
+
+interface StudentViewProps {
+  initialRoom: string;
+  serverUrl: string | null;
+}
+
+const LANGUAGES: { id: LanguageColumns; labelKey: MessageKey }[] = [
+  { id: 'translation', labelKey: 'columns.translation' },
+  { id: 'both', labelKey: 'columns.both' },
+  { id: 'source', labelKey: 'columns.original' },
+];
+
+/** Read-only caption feed for students, opened from the room link or QR code (?view=student). */
+const StudentView: React.FC<StudentViewProps> = ({ initialRoom, serverUrl }) => {
+  const { t, time } = useI18n();
+  const [room, setRoom] = useState(initialRoom.toUpperCase());
+  const [codeInput, setCodeInput] = useState(initialRoom.toUpperCase());
+  const [language, setLanguage] = useState<LanguageColumns>(() => (localStorage.getItem('edutranslate_student_language') as LanguageColumns) || 'translation');
+  const [connection, setConnection] = useState<RelayConnectionState>('connecting');
+  const [sessionName, setSessionName] = useState('');
+  const [entries, setEntries] = useState<RelayCaption[]>([]);
+  const [live, setLive] = useState({ isLive: false, currentInput: '', currentOutput: '' });
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => { localStorage.setItem('edutranslate_student_language', language); }, [language]);
+  useEffect(() => { document.documentElement.classList.toggle('dark', window.matchMedia('(prefers-color-scheme: dark)').matches); }, []);
+  useEffect(() => { document.title = room ? `EduTranslate Live • ${room}` : 'EduTranslate Live'; }, [room]);
+
+  useEffect(() => {
+    if (!room) return;
+    const onEvent = (event: RelayEvent) => {
+      switch (event.type) {
+        case 'init':
+          setSessionName(event.sessionName);
+          setEntries(event.entries);
+          setLive({ isLive: event.isLive, currentInput: event.currentInput, currentOutput: event.currentOutput });
+          break;
+        case 'live':
+          setLive({ isLive: event.isLive, currentInput: event.currentInput, currentOutput: event.currentOutput });
+          break;
+        case 'entries':
+          setEntries(prev => [...prev, ...event.entries]);
+          break;
+        case 'update': {
+          const edited = new Map(event.entries.map(e => [e.id, e]));
+          setEntries(prev => prev.map(e => edited.get(e.id) ?? e));
+          break;
+        }
+        case 'reset':
+          setSessionName(event.sessionName);
+          setEntries(event.entries);
+          break;
+        case 'closed':
+          setLive({ isLive: false, currentInput: '', currentOutput: '' });
+          break;
+      }
+    };
+    return subscribeToRoom(serverUrl || DEFAULT_RELAY_URL, room, onEvent, setConnection);
+  }, [room, serverUrl]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [entries, live]);
+
+  const showSource = language !== 'translation';
+  const showTranslation = language !== 'source';
+
+  if (!room) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6 bg-slate-50 dark:bg-[#0B0F1A]">
+        <form className="w-full max-w-sm bg-white dark:bg-[#111827] rounded-[2rem] shadow-2xl p-8 flex flex-col gap-5" onSubmit={e => { e.preventDefault(); setRoom(codeInput.trim().toUpperCase()); }}>
+          <div className="flex items-center justify-between gap-3">
+            <h1 className="text-lg font-black dark:text-white">{t('student.joinTitle')}</h1>
+            <UiLanguageSwitcher className="h-9" />
+          </div>
+          <input
+            autoFocus
+            value={codeInput}
+            onChange={e => setCodeInput(e.target.value.toUpperCase())}
+            placeholder={t('student.roomCode')}
+            maxLength={6}
+            className="w-full px-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-center text-2xl font-black tracking-[0.3em] text-slate-800 dark:text-slate-200 outline-none"
+          />
+          <button type="submit" disabled={codeInput.trim().length === 0} className="bg-blue-600 hover:brightness-110 text-white px-6 py-3 rounded-xl font-bold shadow-lg disabled:opacity-50">{t('student.join')}</button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen flex flex-col bg-slate-50 dark:bg-[#0B0F1A]">
+      <header className="bg-white dark:bg-[#111827] border-b border-slate-200 dark:border-slate-800 px-4 py-3 flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm font-black dark:text-white truncate">{sessionName || 'EduTranslate Live'}</p>
+          <p className={`text-[10px] font-black uppercase tracking-widest ${connection === 'open' ? (live.isLive ? 'text-green-500' : 'text-slate-400') : connection === 'connecting' ? 'text-amber-500' : 'text-red-500'}`}>
+            {room} • {t(connection === 'open' ? (live.isLive ? 'student.live' : 'student.waiting') : connection === 'connecting' ? 'student.connecting' : 'student.closed')}
+          </p>
+        </div>
+        <UiLanguageSwitcher className="h-9 shrink-0" />
+        <div className="flex bg-slate-100 dark:bg-slate-800 p-1 rounded-xl">
+          {LANGUAGES.map(l => (
+            <button key={l.id} onClick={() => setLanguage(l.id)} className={`px-2.5 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-tighter ${language === l.id ? 'bg-blue-600 text-white' : 'text-slate-400'}`}>{t(l.labelKey)}</button>
+          ))}
+        </div>
+      </header>
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-4">
+        {entries.map(entry => (
+          <div key={entry.id} className="bg-white dark:bg-[#111827] rounded-2xl p-4 shadow-sm border border-slate-100 dark:border-slate-800 space-y-1">
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">{t(`role.${entry.role as SpeakerRole}`)} • {time(entry.timestamp)}</p>
+            {showSource && <p className="text-slate-600 dark:text-slate-400 text-sm">{entry.text}</p>}
+            {showTranslation && <p className="text-slate-900 dark:text-white font-bold">{entry.translation}</p>}
+          </div>
+        ))}
+        {entries.length === 0 && !live.currentInput && !live.currentOutput && (
+          <p className="text-center text-xs font-black uppercase tracking-widest text-slate-300 dark:text-slate-700 pt-12">{t('student.empty')}</p>
+        )}
+      </div>
+      {(live.currentInput || live.currentOutput) && (
+        <div className="bg-white dark:bg-[#111827] border-t border-slate-200 dark:border-slate-800 p-4 space-y-1">
+          {showSource && live.currentInput && <p className="text-slate-500 text-sm">{live.currentInput}</p>}
+          {showTranslation && live.currentOutput && <p className="text-slate-900 dark:text-white text-lg font-bold">{live.currentOutput}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudentView;
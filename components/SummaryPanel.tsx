@@ -0,0 +1,94 @@
+import React from 'react';
+import { LanguageId, LectureSession } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface SummaryPanelProps {
+  session: LectureSession;
+  busy: boolean;
+  accentBg: string;
+  onGenerate: () => void;
+  onClose: () => void;
+}
+
+const SummaryPanel: React.FC<SummaryPanelProps> = ({ session, busy, accentBg, onGenerate, onClose }) => {
+  const { t, dateTime } = useI18n();
+  const summary = session.summary;
+  const stale = !!summary && summary.entryCount < session.entries.length;
+  const heading = 'text-xs font-bold text-slate-500 uppercase tracking-tighter';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-[85vh] flex flex-col bg-white dark:bg-[#111827] rounded-[2rem] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-fadeIn" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-black dark:text-white leading-none">{t('toolbar.summary')}</h2>
+            <p className="text-[10px] font-bold text-slate-400 dark:text-slate-600 uppercase tracking-widest mt-1 truncate">
+              {summary ? t('summary.generated', { time: dateTime(summary.generatedAt), count: summary.entryCount }) : session.name}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={onGenerate} disabled={busy || session.entries.length === 0} className={`${accentBg} hover:brightness-110 text-white px-4 py-2 rounded-xl text-xs font-bold shadow-lg flex items-center gap-2 transition-all active:scale-95 disabled:opacity-50`}>
+              <i className={`fas ${busy ? 'fa-spinner fa-spin' : summary ? 'fa-rotate' : 'fa-clipboard-list'}`}></i> {t(summary ? 'summary.regenerate' : 'summary.generate')}
+            </button>
+            <button onClick={onClose} className="p-2 w-10 h-10 rounded-xl text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"><i className="fas fa-times"></i></button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 flex flex-col gap-8">
+          {stale && (
+            <p className="text-[11px] font-bold px-4 py-3 rounded-xl bg-amber-50 dark:bg-amber-900/10 text-amber-700 dark:text-amber-400">
+              <i className="fas fa-triangle-exclamation mr-2"></i>{t('summary.stale', { count: session.entries.length - summary!.entryCount })}
+            </p>
+          )}
+          {!summary ? (
+            <p className="text-center text-xs font-black uppercase tracking-widest text-slate-300 dark:text-slate-700 py-12">
+              {t(busy ? 'summary.busy' : 'summary.placeholder')}
+            </p>
+          ) : (
+            <>
+              {summary.summaries.map(s => (
+                <section key={s.language} className="space-y-2">
+                  <h3 className={heading}>{t('summary.heading', { language: t(`language.${s.language as LanguageId}`) })}</h3>
+                  <p className="text-sm text-slate-700 dark:text-slate-300 leading-relaxed whitespace-pre-line">{s.text}</p>
+                </section>
+              ))}
+              {summary.keyTerms.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className={heading}>{t('summary.keyTerms')}</h3>
+                  <dl className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {summary.keyTerms.map((term, i) => (
+                      <div key={i} className="p-4 rounded-2xl bg-slate-50 dark:bg-slate-900/50 border border-slate-100 dark:border-slate-800">
+                        <dt className="text-sm font-black dark:text-white">{term.term} <span className="font-bold text-slate-400">· {term.translation}</span></dt>
+                        <dd className="text-xs text-slate-500 dark:text-slate-400 mt-1">{term.definition}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </section>
+              )}
+              {summary.questions.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className={heading}>{t('summary.questions')}</h3>
+                  {summary.questions.map((q, i) => (
+                    <div key={i} className="text-sm space-y-1">
+                      <p className="font-bold text-slate-800 dark:text-slate-200"><i className="fas fa-circle-question mr-2 text-slate-400"></i>{q.question}</p>
+                      <p className="text-slate-600 dark:text-slate-400 pl-6">{q.answer || <span className="italic">{t('summary.noAnswer')}</span>}</p>
+                    </div>
+                  ))}
+                </section>
+              )}
+              {summary.assignments.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className={heading}>{t('summary.assignments')}</h3>
+                  <ul className="list-disc pl-5 text-sm text-slate-700 dark:text-slate-300 space-y-1">
+                    {summary.assignments.map((a, i) => <li key={i}>{a}</li>)}
+                  </ul>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SummaryPanel;
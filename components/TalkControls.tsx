@@ -0,0 +1,66 @@
+import React from 'react';
+import { TalkMode } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface TalkControlsProps {
+  mode: TalkMode;
+  isRecording: boolean;
+  paused: boolean;
+  /** The push-to-talk key or button is held. */
+  talking: boolean;
+  accentBg: string;
+  /** Formatted push-to-talk shortcut. */
+  talkKey: string;
+  onModeChange: (mode: TalkMode) => void;
+  onPausedChange: (paused: boolean) => void;
+  onPress: () => void;
+  onRelease: () => void;
+}
+
+const MODES: TalkMode[] = ['continuous', 'pushToTalk'];
+
+const TalkControls: React.FC<TalkControlsProps> = ({ mode, isRecording, paused, talking, accentBg, talkKey, onModeChange, onPausedChange, onPress, onRelease }) => {
+  const { t } = useI18n();
+  const canTalk = isRecording && !paused;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className={`flex items-center bg-slate-100 dark:bg-slate-800 p-1 rounded-full ${isRecording ? 'opacity-50' : ''}`} title={isRecording ? t('talk.modeLocked') : undefined}>
+          {MODES.map(m => (
+            <button
+              key={m}
+              onClick={() => onModeChange(m)}
+              disabled={isRecording}
+              className={`px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${mode === m ? `${accentBg} text-white shadow-sm` : 'text-slate-500'}`}
+            >
+              {t(`talk.${m}` as 'talk.continuous' | 'talk.pushToTalk')}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => onPausedChange(!paused)}
+          disabled={!isRecording}
+          className={`flex items-center gap-2 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest disabled:opacity-50 ${paused ? 'bg-amber-500/10 text-amber-500' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}
+        >
+          <i className={`fas ${paused ? 'fa-play' : 'fa-pause'}`}></i> {t(paused ? 'talk.resume' : 'talk.pause')}
+        </button>
+      </div>
+      {mode === 'pushToTalk' && (
+        <button
+          onPointerDown={e => { if (!canTalk) return; e.currentTarget.setPointerCapture(e.pointerId); onPress(); }}
+          onPointerUp={onRelease}
+          onPointerCancel={onRelease}
+          onContextMenu={e => e.preventDefault()}
+          disabled={!canTalk}
+          className={`w-full py-5 rounded-2xl font-black uppercase tracking-widest text-xs select-none touch-none transition-all disabled:opacity-50 ${talking ? 'bg-green-500 text-white shadow-lg shadow-green-500/30 scale-[0.98]' : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300'}`}
+        >
+          <i className={`fas fa-microphone mr-2 ${talking ? 'animate-pulse' : ''}`}></i>
+          {talking ? t('talk.talking') : t('talk.hold', { key: talkKey })}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TalkControls;
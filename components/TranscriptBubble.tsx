@@ -0,0 +1,258 @@
+import React, { memo, useState } from 'react';
+import { LanguageId, RomanizationSettings, SpeakerRole, TranscriptEntry } from '../types';
+import { RecordingTrack } from '../services/recordingService';
+import { entryTargetLang } from '../services/languageService';
+import { matchRanges } from '../services/transcriptSearch';
+import { EntryChanges } from '../services/revisionService';
+import { hasRomanization } from '../services/romanization';
+import RubyText from './RubyText';
+import { useI18n } from './I18nProvider';
+
+interface TranscriptBubbleProps {
+  entry: TranscriptEntry;
+  showConnector: boolean;
+  /** Fade in; only the newest entry animates, not rows remounted while scrolling. */
+  animate: boolean;
+  accentBg: string;
+  theme: 'light' | 'dark';
+  copied: boolean;
+  /** Track of this entry that is currently playing, if any. */
+  playingTrack: RecordingTrack | null;
+  /** Segment whose part of `playingTrack` is playing; null when the whole turn plays. */
+  playingSegment: number | null;
+  query: string;
+  flash: boolean;
+  /** Sentence segment to highlight with `flash`; null highlights the whole entry. */
+  flashSegment: number | null;
+  onToggleRole: (id: string) => void;
+  onCopy: (text: string, id: string) => void;
+  onPlay: (id: string, track: RecordingTrack, segment?: number) => void;
+  onEdit: (id: string, changes: EntryChanges) => void;
+  /** Translates corrected source text and saves both; rejects when the model call fails. */
+  onRetranslate: (id: string, text: string) => Promise<void>;
+  /** Clears the quality flag after someone has checked the translation. */
+  onMarkReviewed: (id: string) => void;
+  /** Columns showing Pinyin or Thai romanization; shared by every bubble and the live panels. */
+  romanization: RomanizationSettings;
+  onToggleRomanization: (column: keyof RomanizationSettings) => void;
+}
+
+const Highlighted: React.FC<{ text: string; query: string }> = ({ text, query }) => {
+  const ranges = matchRanges(text, query);
+  if (ranges.length === 0) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > at) parts.push(text.slice(at, start));
+    parts.push(<mark key={start} className="bg-yellow-200 dark:bg-yellow-500/40 text-inherit rounded px-0.5">{text.slice(start, end)}</mark>);
+    at = end;
+  });
+  parts.push(text.slice(at));
+  return <>{parts}</>;
+};
+
+const TranscriptBubble: React.FC<TranscriptBubbleProps> = ({ entry, showConnector, animate, accentBg, theme, copied, playingTrack, playingSegment, query, flash, flashSegment, onToggleRole, onCopy, onPlay, onEdit, onRetranslate, onMarkReviewed, romanization, onToggleRomanization }) => {
+  const { t, time, dateTime } = useI18n();
+  const [draft, setDraft] = useState<{ text: string; translation: string } | null>(null);
+  const [retranslating, setRetranslating] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [showBackTranslation, setShowBackTranslation] = useState(false);
+  const quality = entry.quality;
+  const revisions = entry.revisions ?? [];
+
+  const segments = entry.segments ?? [];
+  const languageLabel = (id: LanguageId) => t(`language.${id}`);
+  const columnLang = (column: keyof RomanizationSettings) => (column === 'source' ? entry.sourceLang : entryTargetLang(entry));
+
+  const columnText = (column: keyof RomanizationSettings, text: string) => romanization[column] && hasRomanization(columnLang(column))
+    ? <RubyText text={text} lang={columnLang(column)} query={query} />
+    : <Highlighted text={text} query={query} />;
+
+  const romanizationButton = (column: keyof RomanizationSettings) => hasRomanization(columnLang(column)) && (
+    <button
+      onClick={() => onToggleRomanization(column)}
+      className={`p-1 transition-colors ${romanization[column] ? 'text-blue-600 dark:text-blue-400' : 'hover:text-blue-600'}`}
+      title={t(columnLang(column) === 'Chinese' ? 'romanization.pinyin' : 'romanization.thai')}
+    >
+      <i className="fas fa-spell-check"></i>
+    </button>
+  );
+
+  const audioButton = (track: RecordingTrack) => entry.hasAudio && (
+    <button onClick={() => onPlay(entry.id, track)} className="p-1 hover:text-blue-600 transition-colors" title={t(track === 'source' ? 'bubble.playSource' : 'bubble.playTranslation')}>
+      <i className={`fas ${playingTrack === track && playingSegment === null ? 'fa-stop' : 'fa-play'}`}></i>
+    </button>
+  );
+
+  // Long turns read sentence by sentence; each sentence shows its start time and plays on its own.
+  const segmentList = (track: RecordingTrack, className: string) => (
+    <ol className="flex flex-col gap-2">
+      {segments.map((segment, i) => {
+        const text = track === 'source' ? segment.text : segment.translation;
+        const playing = playingTrack === track && playingSegment === i;
+        return (
+          <li key={i} className={`flex items-baseline gap-3 rounded-lg transition-colors ${flash && flashSegment === i ? 'bg-yellow-100 dark:bg-yellow-500/20' : ''}`}>
+            <button
+              onClick={() => entry.hasAudio && onPlay(entry.id, track, i)}
+              disabled={!entry.hasAudio}
+              className="shrink-0 text-[9px] font-black tabular-nums text-slate-400 dark:text-slate-600 enabled:hover:text-blue-600"
+              title={entry.hasAudio ? t('bubble.playSentence') : undefined}
+            >
+              {entry.hasAudio && <i className={`fas ${playing ? 'fa-stop' : 'fa-play'} mr-1`}></i>}{time(segment.startedAt, true)}
+            </button>
+            <p className={className}>{text ? columnText(track, text) : <span className="opacity-40">…</span>}</p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+
+  const startEdit = () => setDraft({ text: entry.text, translation: entry.translation });
+
+  const saveEdit = () => {
+    if (draft) onEdit(entry.id, draft);
+    setDraft(null);
+  };
+
+  const retranslate = async () => {
+    if (!draft?.text.trim()) return;
+    setRetranslating(true);
+    try {
+      await onRetranslate(entry.id, draft.text);
+      setDraft(null);
+    } catch (e) {
+      // The error is reported by the caller; keep the draft so nothing typed is lost.
+    } finally {
+      setRetranslating(false);
+    }
+  };
+
+  const editButton = !draft && (
+    <button onClick={startEdit} className="p-1 hover:text-blue-600 transition-colors" title={t('bubble.edit')}>
+      <i className="fas fa-pen"></i>
+    </button>
+  );
+  const textareaClass = 'w-full min-h-[96px] p-3 rounded-xl bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-sm text-slate-800 dark:text-slate-200 outline-none resize-y';
+
+  return (
+    <div className={`relative group flex flex-col gap-4 rounded-[2rem] ${animate ? 'animate-fadeIn' : ''} transition-shadow duration-500 ${flash && flashSegment === null ? 'ring-4 ring-yellow-300/70 dark:ring-yellow-500/40' : ''}`}>
+      {showConnector && <div className="absolute -top-8 left-12 w-px h-8 bg-slate-100 dark:bg-slate-800"></div>}
+      <div className="flex items-start gap-6">
+        <div className="flex flex-col items-center gap-2 pt-1">
+          <button onClick={() => onToggleRole(entry.id)} className={`w-12 h-12 rounded-2xl flex items-center justify-center text-xl shadow-lg transition-all active:scale-90 ${entry.role === 'Professor' ? `${accentBg} text-white shadow-blue-500/20` : 'bg-slate-800 text-white shadow-slate-900/20'}`} title={t('bubble.switchRole')}>
+            <i className={`fas ${entry.role === 'Professor' ? 'fa-user-tie' : 'fa-user-graduate'}`}></i>
+          </button>
+          <span className="text-[9px] font-black uppercase text-slate-400 dark:text-slate-600 tracking-tighter">{t(`role.${entry.role as SpeakerRole}`)}</span>
+        </div>
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-white dark:bg-slate-800/50 p-6 rounded-[1.5rem] border border-slate-100 dark:border-slate-800 shadow-sm relative group/bubble">
+            <div className="text-[9px] font-black text-slate-400 dark:text-slate-600 uppercase tracking-widest mb-2 flex justify-between items-center">
+              <span className="flex items-center gap-2">
+                {t('bubble.source', { language: languageLabel(entry.sourceLang) })}
+                {entry.typed && (
+                  <span className="px-1.5 py-0.5 rounded-md bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400">
+                    <i className="fas fa-keyboard mr-1"></i>{t('bubble.typed')}
+                  </span>
+                )}
+                {revisions.length > 0 && (
+                  <button onClick={() => setShowRevisions(v => !v)} className="px-1.5 py-0.5 rounded-md bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400" title={t('bubble.showRevisions')}>
+                    <i className="fas fa-clock-rotate-left mr-1"></i>{t('bubble.corrected')}
+                  </button>
+                )}
+              </span>
+              <span className="flex items-center gap-2">
+                <span className="opacity-0 group-hover/bubble:opacity-100 transition-opacity">{time(entry.timestamp)}</span>
+                {romanizationButton('source')}
+                {audioButton('source')}
+                {editButton}
+              </span>
+            </div>
+            {draft ? (
+              <textarea className={textareaClass} value={draft.text} onChange={e => setDraft({ ...draft, text: e.target.value })} autoFocus />
+            ) : segments.length > 0 ? segmentList('source', 'text-slate-700 dark:text-slate-300 font-medium leading-relaxed') : (
+              <p className="text-slate-700 dark:text-slate-300 font-medium leading-relaxed">{columnText('source', entry.text)}</p>
+            )}
+          </div>
+          <div className={`p-6 rounded-[1.5rem] border shadow-md relative group/bubble transition-all ${entry.glossaryIssues?.length || quality?.flagged ? 'bg-amber-50/60 dark:bg-amber-900/10 border-amber-300 dark:border-amber-700/50' : theme === 'dark' ? 'bg-blue-900/5 border-blue-900/20' : 'bg-blue-50/30 border-blue-100/50'}`}>
+            <div className="text-[9px] font-black text-blue-500/70 dark:text-blue-400 uppercase tracking-widest mb-2 flex justify-between items-center">
+              <span>{t('bubble.translation', { language: languageLabel(entryTargetLang(entry)) })}</span>
+              <span className="flex items-center gap-1">
+                {romanizationButton('translation')}
+                {audioButton('translation')}
+                {editButton}
+                <button onClick={() => onCopy(entry.translation, entry.id)} className="p-1 hover:text-blue-600 transition-colors" title={t('bubble.copy')}>
+                  <i className={`fas ${copied ? 'fa-check text-green-500' : 'fa-copy'}`}></i>
+                </button>
+              </span>
+            </div>
+            {draft ? (
+              <textarea className={textareaClass} value={draft.translation} onChange={e => setDraft({ ...draft, translation: e.target.value })} />
+            ) : segments.length > 0 ? segmentList('translation', 'text-slate-900 dark:text-blue-50 font-bold leading-relaxed') : (
+              <p className="text-slate-900 dark:text-blue-50 font-bold leading-relaxed">{columnText('translation', entry.translation)}</p>
+            )}
+            {entry.glossaryIssues && entry.glossaryIssues.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-1.5">
+                {entry.glossaryIssues.map(issue => (
+                  <span key={issue.termId} className="text-[9px] font-black px-2 py-1 rounded-md bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400" title={t('bubble.glossaryMiss')}>
+                    <i className="fas fa-book mr-1"></i>{issue.found} → {issue.expected}
+                  </span>
+                ))}
+              </div>
+            )}
+            {quality && (
+              <div className="mt-3 flex flex-wrap items-center gap-1.5">
+                <button
+                  onClick={() => setShowBackTranslation(v => !v)}
+                  className={`text-[9px] font-black px-2 py-1 rounded-md ${quality.flagged ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400' : 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 dark:text-emerald-400'}`}
+                  title={t('bubble.qualityHint')}
+                >
+                  <i className={`fas ${quality.flagged ? 'fa-flag' : 'fa-check-double'} mr-1`}></i>{t('bubble.qualityScore', { score: Math.round(quality.score * 100) })}
+                </button>
+                {quality.issues.map(issue => (
+                  <span key={`${issue.kind}-${issue.detail}`} className="text-[9px] font-black px-2 py-1 rounded-md bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400">
+                    {t(`quality.${issue.kind as 'number' | 'name' | 'negation'}`, { detail: issue.detail })}
+                  </span>
+                ))}
+                {quality.flagged && (
+                  <button onClick={() => onMarkReviewed(entry.id)} className="text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-md text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">
+                    <i className="fas fa-check mr-1"></i>{t('bubble.markReviewed')}
+                  </button>
+                )}
+              </div>
+            )}
+            {quality && showBackTranslation && (
+              <p className="mt-2 text-xs text-slate-500 dark:text-slate-400 italic">
+                <span className="text-[9px] font-black uppercase tracking-widest not-italic mr-1">{t('bubble.backTranslation')}</span>{quality.backTranslation}
+              </p>
+            )}
+            {copied && <span className="absolute top-0 right-12 mt-1.5 bg-slate-900 text-white text-[8px] px-2 py-1 rounded-lg animate-fadeIn z-20">{t('bubble.copied')}</span>}
+          </div>
+          {draft && (
+            <div className="md:col-span-2 flex items-center justify-end gap-2">
+              <button onClick={retranslate} disabled={retranslating || !draft.text.trim()} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:brightness-95 disabled:opacity-50" title={t('bubble.retranslateHint')}>
+                <i className={`fas ${retranslating ? 'fa-spinner fa-spin' : 'fa-language'} mr-1`}></i> {t('bubble.retranslate')}
+              </button>
+              <button onClick={() => setDraft(null)} disabled={retranslating} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50">{t('common.cancel')}</button>
+              <button onClick={saveEdit} disabled={retranslating} className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest ${accentBg} text-white hover:brightness-110 disabled:opacity-50`}>{t('common.save')}</button>
+            </div>
+          )}
+          {showRevisions && revisions.length > 0 && (
+            <ol className="md:col-span-2 flex flex-col gap-2 pl-4 border-l-2 border-emerald-200 dark:border-emerald-800/50">
+              {[...revisions].reverse().map(rev => (
+                <li key={rev.replacedAt} className="text-xs text-slate-400 dark:text-slate-500">
+                  <span className="text-[9px] font-black uppercase tracking-widest">
+                    {t(rev.change === 'retranslate' ? 'revision.retranslate' : 'revision.edit', { time: dateTime(rev.replacedAt) })}
+                  </span>
+                  <p className="line-through decoration-slate-300 dark:decoration-slate-600">{rev.text}</p>
+                  <p className="line-through decoration-slate-300 dark:decoration-slate-600 font-bold">{rev.translation}</p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default memo(TranscriptBubble);
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { LanguageId, SpeakerRole } from '../types';
+import { EMPTY_FILTERS, hasActiveFilters, TranscriptFilters } from '../services/transcriptSearch';
+import { fromLocalInput, toLocalInput } from '../services/dateInput';
+import { useI18n } from './I18nProvider';
+
+interface TranscriptSearchBarProps {
+  filters: TranscriptFilters;
+  /** Source languages present in the transcript. */
+  languages: LanguageId[];
+  hitCount: number;
+  /** Position of the current hit, or -1 before the first jump. */
+  hitIndex: number;
+  shownCount: number;
+  totalCount: number;
+  /** Entries whose quality check needs review. */
+  flaggedCount: number;
+  onChange: (filters: TranscriptFilters) => void;
+  onStep: (direction: 1 | -1) => void;
+}
+
+const TranscriptSearchBar: React.FC<TranscriptSearchBarProps> = ({ filters, languages, hitCount, hitIndex, shownCount, totalCount, flaggedCount, onChange, onStep }) => {
+  const { t } = useI18n();
+  const [showFilters, setShowFilters] = useState(false);
+  const filtered = hasActiveFilters(filters);
+  const selectClass = 'px-2 py-1.5 rounded-lg bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[11px] font-bold text-slate-700 dark:text-slate-200 outline-none';
+
+  return (
+    <div className="px-8 py-3 border-b border-slate-100 dark:border-slate-800 flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700">
+          <i className="fas fa-search text-slate-400 text-xs"></i>
+          <input
+            value={filters.query}
+            onChange={e => onChange({ ...filters, query: e.target.value })}
+            onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); onStep(e.shiftKey ? -1 : 1); } }}
+            placeholder={t('search.placeholder')}
+            className="flex-1 min-w-0 bg-transparent text-sm text-slate-800 dark:text-slate-200 outline-none"
+          />
+          {filters.query.trim() && (
+            <span className="text-[10px] font-black text-slate-400 whitespace-nowrap">{hitCount === 0 ? t('search.noMatches') : `${hitIndex + 1 || '–'} / ${hitCount}`}</span>
+          )}
+          {filters.query && <button onClick={() => onChange({ ...filters, query: '' })} className="text-slate-400 hover:text-slate-600"><i className="fas fa-times text-xs"></i></button>}
+        </div>
+        <button onClick={() => onStep(-1)} disabled={hitCount === 0} className="p-2 w-9 h-9 rounded-xl text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40" title={t('search.previous')}><i className="fas fa-chevron-up"></i></button>
+        <button onClick={() => onStep(1)} disabled={hitCount === 0} className="p-2 w-9 h-9 rounded-xl text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40" title={t('search.next')}><i className="fas fa-chevron-down"></i></button>
+        {(flaggedCount > 0 || filters.flaggedOnly) && (
+          <button
+            onClick={() => onChange({ ...filters, flaggedOnly: !filters.flaggedOnly })}
+            className={`flex items-center gap-1.5 px-3 h-9 rounded-xl text-[10px] font-black uppercase tracking-widest whitespace-nowrap ${filters.flaggedOnly ? 'bg-amber-500 text-white' : 'bg-amber-500/10 text-amber-600 dark:text-amber-400 hover:bg-amber-500/20'}`}
+            title={t('search.reviewFlaggedHint')}
+          >
+            <i className="fas fa-flag"></i> {t('search.reviewFlagged', { count: flaggedCount })}
+          </button>
+        )}
+        <button onClick={() => setShowFilters(v => !v)} className={`p-2 w-9 h-9 rounded-xl hover:bg-slate-100 dark:hover:bg-slate-800 ${filtered ? 'text-blue-500' : 'text-slate-500'}`} title={t('search.filters')}><i className="fas fa-filter"></i></button>
+      </div>
+      {showFilters && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select className={selectClass} value={filters.role} onChange={e => onChange({ ...filters, role: e.target.value as SpeakerRole | 'all' })}>
+            <option value="all">{t('search.allSpeakers')}</option>
+            <option value="Professor">{t('role.Professor')}</option>
+            <option value="Student">{t('role.Student')}</option>
+          </select>
+          <select className={selectClass} value={filters.sourceLang} onChange={e => onChange({ ...filters, sourceLang: e.target.value as LanguageId | 'all' })}>
+            <option value="all">{t('search.allLanguages')}</option>
+            {languages.map(id => <option key={id} value={id}>{t(`language.${id as LanguageId}`)}</option>)}
+          </select>
+          <input type="datetime-local" className={selectClass} value={filters.from !== undefined ? toLocalInput(filters.from) : ''} onChange={e => onChange({ ...filters, from: fromLocalInput(e.target.value) })} />
+          <span className="text-slate-400 text-xs">–</span>
+          <input type="datetime-local" className={selectClass} value={filters.to !== undefined ? toLocalInput(filters.to) : ''} onChange={e => onChange({ ...filters, to: fromLocalInput(e.target.value, true) })} />
+          {filtered && (
+            <>
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{t('search.shown', { shown: shownCount, total: totalCount })}</span>
+              <button onClick={() => onChange({ ...EMPTY_FILTERS, query: filters.query })} className="text-[10px] font-black uppercase tracking-widest text-blue-500 hover:underline">{t('common.reset')}</button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptSearchBar;
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { useI18n } from './I18nProvider';
+
+interface TypedInputBarProps {
+  /** A Live session is running, so text goes into it rather than to the text model. */
+  live: boolean;
+  /** A spoken turn is still being transcribed; typed text would mix into it. */
+  turnInProgress: boolean;
+  speak: boolean;
+  accentBg: string;
+  onSpeakChange: (speak: boolean) => void;
+  /** Rejects when the text could not be translated; the draft is kept. */
+  onSend: (text: string) => Promise<void>;
+}
+
+const TypedInputBar: React.FC<TypedInputBarProps> = ({ live, turnInProgress, speak, accentBg, onSpeakChange, onSend }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const blocked = live && turnInProgress;
+  const canSend = !!draft.trim() && !sending && !blocked;
+
+  const send = async () => {
+    if (!canSend) return;
+    setSending(true);
+    try {
+      await onSend(draft.trim());
+      setDraft('');
+    } catch (e) {
+      // The error is reported by the caller.
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="px-8 py-4 border-t border-slate-100 dark:border-slate-800 flex flex-col gap-2">
+      <div className="flex items-end gap-2">
+        <textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) { e.preventDefault(); send(); } }}
+          placeholder={t('typed.placeholder')}
+          rows={2}
+          className="flex-1 min-w-0 px-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-sm text-slate-800 dark:text-slate-200 outline-none resize-none"
+        />
+        <button onClick={send} disabled={!canSend} className={`${accentBg} hover:brightness-110 text-white w-11 h-11 rounded-xl shadow-lg flex items-center justify-center transition-all active:scale-95 disabled:opacity-50`} title={blocked ? t('typed.waitForTurn') : t('typed.send')}>
+          <i className={`fas ${sending ? 'fa-spinner fa-spin' : 'fa-paper-plane'}`}></i>
+        </button>
+      </div>
+      <div className="flex items-center justify-between gap-3 text-[10px] font-black uppercase tracking-widest text-slate-400">
+        <span><i className={`fas ${live ? 'fa-tower-broadcast' : 'fa-keyboard'} mr-1`}></i>{t(live ? 'typed.live' : 'typed.textOnly')}</span>
+        <label className="flex items-center gap-2 text-slate-500 cursor-pointer">
+          <input type="checkbox" checked={speak} onChange={e => onSpeakChange(e.target.checked)} />
+          <i className="fas fa-volume-high"></i> {t('typed.speak')}
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default TypedInputBar;
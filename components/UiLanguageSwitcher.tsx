@@ -0,0 +1,18 @@
+import React from 'react';
+import { UiLocale } from '../types';
+import { UI_LOCALES } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+const UiLanguageSwitcher: React.FC<{ className?: string }> = ({ className = '' }) => {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <label className={`flex items-center gap-2 px-3 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 ${className}`} title={t('common.uiLanguage')}>
+      <i className="fas fa-globe text-xs"></i>
+      <select value={locale} onChange={e => setLocale(e.target.value as UiLocale)} className="bg-transparent text-[11px] font-bold outline-none cursor-pointer" aria-label={t('common.uiLanguage')}>
+        {UI_LOCALES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+      </select>
+    </label>
+  );
+};
+
+export default UiLanguageSwitcher;
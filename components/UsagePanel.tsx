@@ -0,0 +1,122 @@
+import React from 'react';
+import { UsageCounters, UsageSettings, UsageTotals } from '../types';
+import { budgetLevel, estimateCost, formatCost, formatDuration } from '../services/usageService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface UsagePanelProps {
+  /** Usage of the open class session. */
+  session: UsageCounters;
+  totals: UsageTotals;
+  settings: UsageSettings;
+  onChange: (settings: UsageSettings) => void;
+  onResetTotals: () => void;
+  onClose: () => void;
+}
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ session, totals, settings, onChange, onResetTotals, onClose }) => {
+  const { t, locale, number, dateTime } = useI18n();
+  const sessionCost = estimateCost(session, settings);
+  const level = budgetLevel(sessionCost, settings);
+  const budgetShare = settings.sessionBudget > 0 ? Math.min(1, sessionCost / settings.sessionBudget) : 0;
+  const heading = 'text-xs font-bold text-slate-500 uppercase tracking-tighter';
+  const inputClass = 'w-full px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 text-sm text-slate-800 dark:text-slate-200 outline-none';
+  const labelClass = 'flex flex-col gap-1 text-[9px] font-black uppercase tracking-widest text-slate-400';
+  const amount = (value: string) => Math.max(0, Number(value) || 0);
+  const cost = (value: number) => formatCost(value, settings.currency, locale);
+
+  const rows: [MessageKey, (u: UsageCounters) => string][] = [
+    ['usage.audioSent', u => formatDuration(u.audioSentMs)],
+    ['usage.audioReceived', u => formatDuration(u.audioReceivedMs)],
+    ['usage.turns', u => number(u.turns)],
+    ['usage.inputTokens', u => number(u.promptTokens)],
+    ['usage.outputTokens', u => number(u.responseTokens)],
+    ['usage.totalTokens', u => number(u.totalTokens)],
+    ['usage.cost', u => cost(estimateCost(u, settings))],
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-white dark:bg-[#111827] rounded-[2rem] shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden animate-fadeIn" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-black dark:text-white leading-none">{t('toolbar.usage')}</h2>
+            <p className="text-[10px] font-bold text-slate-400 dark:text-slate-600 uppercase tracking-widest mt-1">{t('usage.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="p-2 w-10 h-10 rounded-xl text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"><i className="fas fa-times"></i></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-8 flex flex-col gap-8">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[9px] font-black uppercase tracking-widest text-slate-400 text-left">
+                <th className="pb-2"></th>
+                <th className="pb-2">{t('usage.thisSession')}</th>
+                <th className="pb-2">{t('usage.allSessions')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(([label, value]) => (
+                <tr key={label} className="border-t border-slate-100 dark:border-slate-800">
+                  <td className="py-2 text-[10px] font-black uppercase tracking-widest text-slate-500">{t(label)}</td>
+                  <td className="py-2 font-bold tabular-nums text-slate-800 dark:text-slate-200">{value(session)}</td>
+                  <td className="py-2 font-bold tabular-nums text-slate-800 dark:text-slate-200">{value(totals)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex items-center justify-between text-[10px] font-bold text-slate-400">
+            <span>{t('usage.since', { time: dateTime(totals.since) })}</span>
+            <button onClick={onResetTotals} className="font-black uppercase tracking-widest text-blue-500 hover:underline">{t('common.reset')}</button>
+          </div>
+
+          <section className="space-y-3">
+            <h3 className={heading}>{t('usage.budget')}</h3>
+            {settings.sessionBudget > 0 && (
+              <div className="space-y-1">
+                <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+                  <div className={`h-full transition-all ${level === 'exceeded' ? 'bg-red-500' : level === 'warn' ? 'bg-amber-500' : 'bg-green-500'}`} style={{ width: `${budgetShare * 100}%` }}></div>
+                </div>
+                <p className="text-[10px] font-bold text-slate-400">{t('usage.budgetOf', { cost: cost(sessionCost), budget: cost(settings.sessionBudget) })}</p>
+              </div>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              <label className={labelClass}>
+                {t('usage.budgetInput')}
+                <input type="number" min={0} step={0.1} className={inputClass} value={settings.sessionBudget} onChange={e => onChange({ ...settings, sessionBudget: amount(e.target.value) })} />
+              </label>
+              <label className={labelClass}>
+                {t('usage.warnAt', { percent: settings.warnPercent })}
+                <input type="range" min={50} max={100} step={5} value={settings.warnPercent} onChange={e => onChange({ ...settings, warnPercent: Number(e.target.value) })} />
+              </label>
+              <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 cursor-pointer">
+                <input type="checkbox" checked={settings.autoStop} onChange={e => onChange({ ...settings, autoStop: e.target.checked })} />
+                {t('usage.autoStop')}
+              </label>
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className={heading}>{t('usage.pricing')}</h3>
+            <div className="grid grid-cols-3 gap-4">
+              <label className={labelClass}>
+                {t('usage.inputPrice')}
+                <input type="number" min={0} step={0.01} className={inputClass} value={settings.inputTokenPrice} onChange={e => onChange({ ...settings, inputTokenPrice: amount(e.target.value) })} />
+              </label>
+              <label className={labelClass}>
+                {t('usage.outputPrice')}
+                <input type="number" min={0} step={0.01} className={inputClass} value={settings.outputTokenPrice} onChange={e => onChange({ ...settings, outputTokenPrice: amount(e.target.value) })} />
+              </label>
+              <label className={labelClass}>
+                {t('usage.currency')}
+                <input className={inputClass} value={settings.currency} onChange={e => onChange({ ...settings, currency: e.target.value.toUpperCase() })} maxLength={3} />
+              </label>
+            </div>
+            <p className="text-[10px] font-bold text-slate-400">{t('usage.audioTokensHint')}</p>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  itemKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  /** Height assumed for rows that have not been measured yet. */
+  estimatedHeight: number;
+  gap: number;
+  scrollRef: React.RefObject<HTMLDivElement | null>;
+  /** Scrolls the row at `index` into view whenever `token` changes. */
+  jumpTo?: { index: number; token: number } | null;
+  className?: string;
+  empty?: React.ReactNode;
+}
+
+const OVERSCAN_PX = 800;
+
+/** First index whose row ends below `y`. */
+function findRow(offsets: number[], y: number): number {
+  let lo = 0;
+  let hi = offsets.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid + 1] > y) hi = mid; else lo = mid + 1;
+  }
+  return lo;
+}
+
+/**
+ * Scroll container that only mounts the rows near the viewport. Row heights are
+ * measured as they render and estimated until then, so long transcripts stay fast.
+ */
+function VirtualList<T>({ items, itemKey, renderItem, estimatedHeight, gap, scrollRef, jumpTo, className = '', empty }: VirtualListProps<T>) {
+  const heights = useRef(new Map<string, number>());
+  const [measured, setMeasured] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  const rowObserver = useMemo(() => new ResizeObserver(records => {
+    let changed = false;
+    records.forEach(record => {
+      const el = record.target as HTMLElement;
+      const key = el.dataset.key;
+      if (key && heights.current.get(key) !== el.offsetHeight) {
+        heights.current.set(key, el.offsetHeight);
+        changed = true;
+      }
+    });
+    if (changed) setMeasured(m => m + 1);
+  }), []);
+
+  useEffect(() => () => rowObserver.disconnect(), [rowObserver]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const update = () => setViewport({ top: el.scrollTop, height: el.clientHeight });
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(el);
+    el.addEventListener('scroll', update, { passive: true });
+    return () => { observer.disconnect(); el.removeEventListener('scroll', update); };
+  }, [scrollRef]);
+
+  const offsets = useMemo(() => {
+    const out = new Array<number>(items.length + 1);
+    out[0] = 0;
+    items.forEach((item, i) => { out[i + 1] = out[i] + (heights.current.get(itemKey(item)) ?? estimatedHeight) + gap; });
+    return out;
+  }, [items, itemKey, estimatedHeight, gap, measured]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!jumpTo || !el || jumpTo.index >= items.length) return;
+    el.scrollTo({ top: Math.max(0, offsets[jumpTo.index] - el.clientHeight / 3), behavior: 'smooth' });
+    // Only the token triggers a jump; later re-measuring must not scroll again.
+  }, [jumpTo?.token]);
+
+  const total = items.length ? offsets[items.length] - gap : 0;
+  const first = items.length ? findRow(offsets, viewport.top - OVERSCAN_PX) : 0;
+  const last = items.length ? findRow(offsets, viewport.top + viewport.height + OVERSCAN_PX) : -1;
+
+  return (
+    <div ref={scrollRef} className={className}>
+      {items.length === 0 ? empty : (
+        <div className="relative" style={{ height: total }}>
+          {items.slice(first, last + 1).map((item, i) => {
+            const index = first + i;
+            const key = itemKey(item);
+            return (
+              <div
+                key={key}
+                data-key={key}
+                className="absolute left-0 right-0"
+                style={{ top: offsets[index] }}
+                ref={(el: HTMLDivElement | null) => {
+                  if (!el) return;
+                  rowObserver.observe(el);
+                  return () => rowObserver.unobserve(el);
+                }}
+              >
+                {renderItem(item, index)}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default VirtualList;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { VadSettings } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface VoiceActivityPanelProps {
+  settings: VadSettings;
+  isSpeaking: boolean;
+  isRecording: boolean;
+  onChange: (settings: VadSettings) => void;
+}
+
+const VoiceActivityPanel: React.FC<VoiceActivityPanelProps> = ({ settings, isSpeaking, isRecording, onChange }) => {
+  const { t } = useI18n();
+  const active = isRecording && settings.enabled;
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className={`flex items-center gap-2 text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full transition-colors ${
+          !active ? 'bg-slate-100 dark:bg-slate-800 text-slate-400' : isSpeaking ? 'bg-green-500/10 text-green-500' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'
+        }`} title={t(settings.enabled ? 'vad.gateOn' : 'vad.gateOff')}>
+          <span className={`w-2 h-2 rounded-full ${active && isSpeaking ? 'bg-green-500 animate-pulse' : 'bg-slate-300 dark:bg-slate-600'}`}></span>
+          {t(!isRecording ? 'vad.micIdle' : !settings.enabled ? 'vad.streamingAll' : isSpeaking ? 'vad.speech' : 'vad.silence')}
+        </div>
+        <label className={`flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500 ${isRecording ? 'opacity-50' : 'cursor-pointer'}`}>
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            disabled={isRecording}
+            onChange={e => onChange({ ...settings, enabled: e.target.checked })}
+          />
+          {t('vad.noiseGate')}
+        </label>
+      </div>
+      {settings.enabled && (
+        <div className="grid grid-cols-2 gap-4">
+          <label className="flex flex-col gap-1 text-[9px] font-black uppercase tracking-widest text-slate-400">
+            {t('vad.sensitivity', { value: Math.round(settings.sensitivity * 100) })}
+            <input type="range" min={0} max={1} step={0.05} value={settings.sensitivity} onChange={e => onChange({ ...settings, sensitivity: Number(e.target.value) })} />
+          </label>
+          <label className="flex flex-col gap-1 text-[9px] font-black uppercase tracking-widest text-slate-400">
+            {t('vad.hangover', { value: settings.hangoverMs })}
+            <input type="range" min={200} max={2000} step={100} value={settings.hangoverMs} onChange={e => onChange({ ...settings, hangoverMs: Number(e.target.value) })} />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VoiceActivityPanel;
@@ -1,13 +1,70 @@
+import { LanguageDefinition, LanguageId, LanguagePairs, RoleMode } from './types';
 
-export const SYSTEM_INSTRUCTION = `
-You are an expert academic translator for a Master's degree classroom setting. 
+export const LANGUAGES: Record<LanguageId, LanguageDefinition> = {
+  Thai: {
+    id: 'Thai',
+    label: 'Thai',
+    nativeName: 'ไทย',
+    script: /[\u0E00-\u0E7F]/g,
+    promptName: 'polite, formal Academic Thai',
+    voices: { Male: 'Puck', Female: 'Kore' },
+  },
+  Chinese: {
+    id: 'Chinese',
+    label: 'Chinese',
+    nativeName: '中文',
+    script: /[\u3400-\u4DBF\u4E00-\u9FFF]/g,
+    promptName: 'high-level, formal Academic Chinese (Simplified)',
+    voices: { Male: 'Puck', Female: 'Kore' },
+  },
+  Vietnamese: {
+    id: 'Vietnamese',
+    label: 'Vietnamese',
+    nativeName: 'Tiếng Việt',
+    // Letters with the horn, breve or stacked tone marks only occur in Vietnamese.
+    script: /[ăâđêôơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹĂÂĐÊÔƠƯ]/g,
+    promptName: 'formal Academic Vietnamese',
+    voices: { Male: 'Orus', Female: 'Leda' },
+  },
+  Japanese: {
+    id: 'Japanese',
+    label: 'Japanese',
+    nativeName: '日本語',
+    // Kana plus kanji, so text with any kana outscores the Han-only Chinese rule.
+    script: /[\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF]/g,
+    promptName: 'formal Academic Japanese (desu/masu style)',
+    voices: { Male: 'Fenrir', Female: 'Aoede' },
+  },
+  English: {
+    id: 'English',
+    label: 'English',
+    nativeName: 'English',
+    script: null,
+    promptName: 'formal Academic English',
+    voices: { Male: 'Charon', Female: 'Zephyr' },
+  },
+};
+
+export const LANGUAGE_IDS = Object.keys(LANGUAGES) as LanguageId[];
+
+export const DEFAULT_LANGUAGE_PAIRS: LanguagePairs = {
+  Professor: { source: 'Thai', target: 'Chinese' },
+  Student: { source: 'Chinese', target: 'Thai' },
+};
+
+// Speakers may always fall back to English for technical terms.
+const spokenLanguages = (source: LanguageId, separator = ' or ') => [...new Set([source, 'English'])].join(separator);
+
+const buildSystemInstruction = (pairs: LanguagePairs) => `
+You are an expert academic translator for a Master's degree classroom setting.
 Your goal is to provide high-quality, formal, and accurate translation for a specific role in the classroom.
 
 Academic Context: Master's Degree (Postgraduate level). Terminology should include research methodology, critical analysis, and formal citations.
 
 Role-Specific Rules:
-1. PROFESSOR MODE: The speaker is a Thai Professor. If they speak Thai or English, translate their speech into high-level, formal Academic Chinese (Simplified).
-2. STUDENT MODE: The speaker is a Chinese Student. If they speak Chinese or English, translate their speech into polite, formal Academic Thai.
+1. PROFESSOR MODE: The speaker is a ${pairs.Professor.source}-speaking Professor. If they speak ${spokenLanguages(pairs.Professor.source)}, translate their speech into ${LANGUAGES[pairs.Professor.target].promptName}.
+2. STUDENT MODE: The speaker is a ${pairs.Student.source}-speaking Student. If they speak ${spokenLanguages(pairs.Student.source)}, translate their speech into ${LANGUAGES[pairs.Student.target].promptName}.
+3. AUTO MODE: The Professor and Students take turns. Detect the language of every turn: ${pairs.Professor.source} speech is the Professor (translate to ${pairs.Professor.target}), ${pairs.Student.source} speech is a Student (translate to ${pairs.Student.target}). Speech in any other language keeps the direction of the previous turn.
 
 General Rules:
 - Maintain a professional tone.
@@ -16,11 +73,56 @@ General Rules:
 - Be concise but precise.
 `;
 
-export const getRoleInstruction = (role: 'Professor' | 'Student') => {
-  if (role === 'Professor') {
-    return `${SYSTEM_INSTRUCTION}\nCURRENT ACTIVE MODE: PROFESSOR. Focus on translating Thai/English to formal Chinese Simplified.`;
-  }
-  return `${SYSTEM_INSTRUCTION}\nCURRENT ACTIVE MODE: STUDENT. Focus on translating Chinese/English to formal Thai.`;
+const roleModeNote = (role: RoleMode, pairs: LanguagePairs) => {
+  if (role === 'Auto') return 'CURRENT ACTIVE MODE: AUTO. Decide the translation direction per turn from the language that was spoken.';
+  const pair = pairs[role];
+  return `CURRENT ACTIVE MODE: ${role.toUpperCase()}. Focus on translating ${spokenLanguages(pair.source, '/')} to ${LANGUAGES[pair.target].promptName}.`;
+};
+
+export const getRoleInstruction = (role: RoleMode, pairs: LanguagePairs, glossaryPrompt: string = '') => {
+  return `${buildSystemInstruction(pairs)}\n${roleModeNote(role, pairs)}${glossaryPrompt}`;
+};
+
+/**
+ * Context message sent into a running session when the role mode changes,
+ * so the translation direction can switch without reconnecting.
+ */
+export const getRoleSwitchNotice = (role: RoleMode, pairs: LanguagePairs) => {
+  return `[MODE SWITCH - do not translate or answer this message] ${roleModeNote(role, pairs)}`;
+};
+
+/** Typed text sent into a running session in place of speech. */
+export const getTypedTurnPrompt = (text: string) => {
+  return `[TYPED INPUT - translate the text below as if it had been spoken; do not answer it]\n${text}`;
+};
+
+/**
+ * Role instruction for the text model, used when an entry is re-translated from
+ * corrected text instead of live speech.
+ */
+export const getTextTranslationInstruction = (role: RoleMode, pairs: LanguagePairs, glossaryPrompt: string = '') => {
+  return `${getRoleInstruction(role, pairs, glossaryPrompt)}\nTEXT MODE: The input is a typed transcript, not speech, and your output is not spoken. Reply with the translation only, as plain text, without notes or quotation marks.`;
+};
+
+/**
+ * Instruction for back-translating a finished translation. The source text is
+ * deliberately not shown, so the result reflects only what the translation says.
+ */
+export const getBackTranslationInstruction = (from: LanguageId, to: LanguageId) => {
+  return `Translate the following ${LANGUAGES[from].label} text into ${LANGUAGES[to].label} as literally as possible. Keep every number, name and negation exactly as written. Reply with the translation only, as plain text, without notes or quotation marks.`;
+};
+
+/** The Live voice is fixed per session, so it follows the language the current role translates into. */
+export const getVoiceName = (role: RoleMode, pairs: LanguagePairs, gender: 'Male' | 'Female') => {
+  return LANGUAGES[pairs[role === 'Student' ? 'Student' : 'Professor'].target].voices[gender];
 };
 
 export const GEMINI_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+/** Text model for work done after the fact, such as session summaries. */
+export const TEXT_MODEL = 'gemini-2.5-flash';
+
+/** Speech model that reads typed translations aloud when no Live session is running. */
+export const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+export const PCM_INPUT_MIME_TYPE = 'audio/pcm;rate=16000';
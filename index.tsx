@@ -2,15 +2,30 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import AudienceView from './components/AudienceView';
+import StudentView from './components/StudentView';
+import I18nProvider from './components/I18nProvider';
+import { registerServiceWorker } from './services/offline';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// The projector caption window (?view=audience) and the student phone view
+// (?view=student&room=CODE) run the same bundle as the host app.
+const params = new URLSearchParams(window.location.search);
+const view = params.get('view');
+
+registerServiceWorker();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <I18nProvider>
+      {view === 'audience' ? <AudienceView />
+        : view === 'student' ? <StudentView initialRoom={params.get('room') ?? ''} serverUrl={params.get('relay')} />
+        : <App />}
+    </I18nProvider>
   </React.StrictMode>
 );
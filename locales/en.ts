@@ -0,0 +1,346 @@
+/** Source catalog; the other locales must provide every key defined here. */
+const en = {
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
+  'common.reset': 'Reset',
+  'common.unknown': 'Unknown',
+  'common.uiLanguage': 'Interface language',
+
+  'role.Professor': 'Teacher',
+  'role.Student': 'Student',
+  'roleMode.Auto': 'Auto Detect',
+  'roleMode.Professor': 'Teacher Mode',
+  'roleMode.Student': 'Student Mode',
+  'voice.Female': 'Female',
+  'voice.Male': 'Male',
+
+  'language.Thai': 'Thai',
+  'language.Chinese': 'Chinese',
+  'language.Vietnamese': 'Vietnamese',
+  'language.Japanese': 'Japanese',
+  'language.English': 'English',
+
+  'columns.both': 'Both',
+  'columns.source': 'Source',
+  'columns.translation': 'Translation',
+  'columns.original': 'Original',
+  'columns.sourceOnly': 'Source Only',
+  'columns.translationOnly': 'Translation Only',
+
+  'app.tagline': 'Enterprise Academic v2.0',
+  'app.toggleTheme': 'Switch light/dark theme',
+  'app.connect': 'Connect Live',
+  'app.stop': 'Stop Live',
+  'app.alert': 'System Alert',
+
+  'live.heading': 'Active Processing',
+  'live.detectedSpeaker': 'Speaker detected from the last turn',
+  'live.live': 'Live',
+  'live.reconnecting': 'Reconnecting',
+  'live.replaying': 'Replay {speed}×',
+  'live.paused': 'Paused',
+  'live.connectionLost': 'Connection Lost',
+  'live.retry': 'Retry {attempt}/{max} • Offline {seconds}s • Audio is buffered',
+  'live.detectedSpeech': 'Detected Speech',
+  'live.waitingForVoice': 'Waiting for voice activity...',
+  'live.translation': 'Academic Translation',
+  'live.readyForOutput': 'System ready for output...',
+  'live.recordAudio': 'Record Class Audio',
+  'live.recordAudioHint': 'Keep the original and translated voice of every turn',
+  'live.checkQuality': 'Check Translations',
+  'live.checkQualityHint': 'Translate each finished turn back into its source language in the background and flag doubtful ones',
+
+  'offline.badge': 'Offline',
+  'offline.title': 'Offline',
+  'offline.explanation': 'Live translation needs a network connection. Saved sessions can still be opened, searched and exported.',
+  'offline.connectHint': 'Go back online to start live translation',
+
+  'history.title': 'Session Transcript',
+  'history.subtitle': 'Permanent record of class dialogue',
+  'history.empty': 'Transcript Empty',
+  'history.emptyHint': 'Begin speaking to generate history',
+  'history.noMatches': 'No entries match the filters',
+
+  'toolbar.audience': 'Audience Captions',
+  'toolbar.broadcast': 'Classroom Broadcast',
+  'toolbar.broadcasting': 'Broadcasting to room {code}',
+  'toolbar.glossary': 'Course Glossary',
+  'toolbar.archive': 'Lecture Archive',
+  'toolbar.summary': 'Session Summary',
+  'toolbar.usage': 'Usage & Budget',
+  'toolbar.export': 'Export',
+  'toolbar.shortcuts': 'Keyboard Shortcuts',
+  'toolbar.clear': 'Clear All',
+
+  'footer.active': 'System Active',
+  'footer.role': 'Role: {role}',
+  'footer.voice': 'Voice: {voice}',
+
+  'error.historyStore': 'Could not open the lecture archive',
+  'error.relayUnavailable': 'Could not reach the broadcast server. Make sure npm run relay is running.',
+  'error.budgetWarn': 'The estimated cost of this class has reached {percent}% of its budget',
+  'error.budgetAutoStopped': 'Live translation stopped automatically because the estimated cost reached the class budget',
+  'error.budgetExceeded': 'The estimated cost of this class is over its budget',
+  'error.budgetReached': 'The estimated cost of this class has reached its budget. Raise the budget or start a new class.',
+  'error.secureContext': 'Please open the app over HTTPS (Secure Context required)',
+  'error.offline': 'You are offline; a live session needs a network connection',
+  'error.samePair': 'The source and target languages must be different',
+  'error.micPermission': 'Please allow microphone access in the browser settings',
+  'error.micNotFound': 'No microphone was found on this device',
+  'error.micFailed': 'Could not open the microphone: {message}',
+  'error.connectionLost': 'The connection to the AI was lost and could not be restored',
+  'error.connectionFailed': 'Could not connect to the AI',
+  'error.generic': 'Something went wrong: {message}',
+  'error.clipboard': 'This browser does not support copying',
+  'error.retranslate': 'Re-translation failed: {message}',
+  'error.noRecording': 'No audio was recorded for this entry',
+  'error.captionsOnly': 'Translated audio is off while Captions Only is on',
+  'error.playback': 'Playback failed: {message}',
+  'error.summary': 'Could not summarize the class: {message}',
+  'error.stopBeforeDelete': 'Stop live translation before deleting this class',
+  'error.stopBeforeOpen': 'Stop live translation before opening another class',
+  'error.import': 'Import failed: {message}',
+  'error.replayFile': 'Could not replay the file: {message}',
+  'error.export': 'Export failed: {message}',
+  'error.glossaryImport': 'Glossary import failed: {message}',
+  'error.typed': 'Could not translate the typed text: {message}',
+  'error.speak': 'Could not read the translation aloud: {message}',
+  'error.outputDevice': 'Could not switch the audio output: {message}',
+  'error.micSettings': 'Could not apply the microphone settings: {message}',
+  'confirm.clearHistory': 'Delete the history of this class?',
+  'confirm.deleteSession': 'Delete this class and everything in it?',
+
+  'bubble.switchRole': 'Switch Role Label',
+  'bubble.source': 'Source: {language}',
+  'bubble.translation': 'Translation: {language}',
+  'bubble.corrected': 'Corrected',
+  'bubble.showRevisions': 'Show revision history',
+  'bubble.playSource': 'Play Original Voice',
+  'bubble.playTranslation': 'Play Translated Voice',
+  'bubble.playSentence': 'Play this sentence',
+  'bubble.edit': 'Edit Entry',
+  'bubble.copy': 'Copy Translation',
+  'bubble.copied': 'Copied',
+  'bubble.glossaryMiss': 'Approved glossary rendering was not used',
+  'bubble.qualityScore': 'Match {score}%',
+  'bubble.qualityHint': 'How closely the back-translation matches what was said; click to show it',
+  'bubble.markReviewed': 'Mark Checked',
+  'bubble.backTranslation': 'Back-translation',
+  'romanization.pinyin': 'Show Pinyin above the Chinese text',
+  'romanization.thai': 'Show Thai romanization (RTGS) above the text',
+  'romanization.toggle': 'Show Pinyin and Thai romanization',
+  'quality.number': 'Number changed: {detail}',
+  'quality.name': 'Name missing: {detail}',
+  'quality.negation': 'Negation changed ({detail})',
+  'bubble.retranslate': 'Re-translate',
+  'bubble.retranslateHint': 'Translate the corrected source text again',
+  'bubble.typed': 'Typed',
+  'revision.edit': 'Edited {time}',
+  'revision.retranslate': 'Re-translated {time}',
+
+  'search.placeholder': 'Search source and translation',
+  'search.noMatches': 'No matches',
+  'search.previous': 'Previous match (Shift+Enter)',
+  'search.next': 'Next match (Enter)',
+  'search.filters': 'Filters',
+  'search.allSpeakers': 'All speakers',
+  'search.allLanguages': 'All languages',
+  'search.shown': '{shown} of {total}',
+  'search.reviewFlagged': 'Review Flagged ({count})',
+  'search.reviewFlaggedHint': 'Show only translations flagged by the quality check',
+
+  'typed.placeholder': 'Type or paste text to translate (Enter to send, Shift+Enter for a new line)',
+  'typed.send': 'Send',
+  'typed.waitForTurn': 'Wait for the current spoken turn to finish',
+  'typed.live': 'Sent into the live session',
+  'typed.textOnly': 'Translated as text',
+  'typed.speak': 'Read aloud',
+
+  'languagePairs.locked': 'Stop the session to change languages',
+
+  'vad.micIdle': 'Mic Idle',
+  'vad.streamingAll': 'Streaming All',
+  'vad.speech': 'Speech',
+  'vad.silence': 'Silence',
+  'vad.gateOn': 'Only speech is streamed to the translator',
+  'vad.gateOff': 'All audio is streamed',
+  'vad.noiseGate': 'Noise Gate',
+  'vad.sensitivity': 'Sensitivity {value}%',
+  'vad.hangover': 'Hangover {value} ms',
+
+  'output.captionsOnly': 'Captions Only',
+  'output.captionsOnlyHint': 'Show the translation without playing the translated voice',
+  'output.stop': 'Stop Playback',
+  'output.volume': 'Volume {value}%',
+  'output.rate': 'Speed {value}×',
+  'output.device': 'Output Device',
+  'output.defaultDevice': 'System default',
+  'output.deviceFallback': 'Speaker {index}',
+
+  'mic.device': 'Microphone',
+  'mic.deviceLocked': 'Stop the session to switch microphones',
+  'mic.defaultDevice': 'System default',
+  'mic.deviceFallback': 'Microphone {index}',
+  'mic.echoCancellation': 'Echo Cancel',
+  'mic.noiseSuppression': 'Noise Suppress',
+  'mic.autoGainControl': 'Auto Gain',
+  'mic.gain': 'Input Gain {value}×',
+  'mic.level': 'Input level',
+  'mic.health.clipping': 'The input is clipping; lower the gain or move the mic away',
+  'mic.health.quiet': 'The input is very quiet; raise the gain or check the mic',
+  'mic.health.muted': 'The microphone is muted',
+  'mic.health.ended': 'The microphone was disconnected',
+
+  'replay.capture': 'Capture Stream',
+  'replay.captureHint': 'Save the raw Live messages of the next run so they can be replayed offline',
+  'replay.save': 'Save Capture',
+  'replay.speed': 'Replay speed',
+  'replay.speedOption': '{value}×',
+  'replay.replay': 'Replay File',
+  'replay.replayHint': 'Play a saved capture through the transcript without a connection; faster speeds are silent',
+
+  'talk.continuous': 'Continuous',
+  'talk.pushToTalk': 'Push to Talk',
+  'talk.modeLocked': 'Stop the session to change how the mic is used',
+  'talk.pause': 'Pause Mic',
+  'talk.resume': 'Resume Mic',
+  'talk.hold': 'Hold to Talk ({key})',
+  'talk.talking': 'Talking… release to translate',
+
+  'shortcuts.title': 'Keyboard Shortcuts',
+  'shortcuts.subtitle': 'Click a shortcut, then press the new keys',
+  'shortcuts.change': 'Change shortcut',
+  'shortcuts.pressKeys': 'Press keys…',
+  'shortcuts.unset': 'Not set',
+  'shortcuts.action.toggleSession': 'Connect / stop',
+  'shortcuts.action.switchRole': 'Switch role',
+  'shortcuts.action.pushToTalk': 'Push to talk (hold)',
+  'shortcuts.action.pauseInput': 'Pause / resume the mic',
+  'shortcuts.action.pauseOutput': 'Pause / resume translated audio',
+  'shortcuts.action.export': 'Export transcript',
+  'shortcuts.action.help': 'Show shortcuts',
+
+  'archive.count': '{count} saved sessions',
+  'archive.import': 'Import',
+  'archive.importHint': 'Import JSON Export',
+  'archive.className': 'Class name',
+  'archive.courseCode': 'Course code',
+  'archive.participants': 'Participants (comma separated)',
+  'archive.newClass': 'New Class',
+  'archive.defaultName': 'Lecture {date}',
+  'archive.importedHistory': 'Imported history',
+  'archive.importedSession': 'Imported session',
+  'archive.empty': 'No archived sessions yet',
+  'archive.open': 'Open',
+  'archive.openAction': 'Open',
+  'archive.openHint': 'Open and Continue',
+  'archive.editDetails': 'Edit Details',
+  'archive.delete': 'Delete Session',
+  'archive.entries': '{count} entries',
+
+  'glossary.general': 'General',
+  'glossary.count': '{count} terms',
+  'glossary.nextConnect': 'Changes apply from the next Connect',
+  'glossary.note': 'Note',
+  'glossary.importCsv': 'Import CSV',
+  'glossary.exportCsv': 'Export CSV',
+  'glossary.remove': 'Remove Term',
+  'glossary.add': 'Add Term',
+
+  'export.title': 'Export Transcript',
+  'export.format': 'Format',
+  'export.format.txt': 'Text',
+  'export.format.srt': 'SRT',
+  'export.format.vtt': 'WebVTT',
+  'export.format.md': 'Markdown',
+  'export.format.docx': 'Word',
+  'export.format.json': 'JSON',
+  'export.format.wav': 'Audio',
+  'export.columns': 'Language Columns',
+  'export.jsonHint': 'JSON exports the whole session with every field and revision, so it can be re-imported.',
+  'export.wavHint': 'Recorded turns in order: original speech followed by the translated voice.',
+  'export.includeSummary': 'Include Session Summary',
+  'export.includeRevisions': 'Include Revision History',
+  'export.includeRomanization': 'Add Pinyin and Thai Romanization',
+  'export.range': 'Time Range',
+  'export.run': 'Export {count} entries',
+  'export.runOne': 'Export 1 entry',
+  'export.transcript': 'Transcript',
+  'export.course': 'Course: {code}',
+  'export.date': 'Date: {date}',
+  'export.participants': 'Participants: {names}',
+  'export.column.time': 'Time',
+  'export.column.role': 'Role',
+  'export.column.languages': 'Languages',
+  'export.column.revisions': 'Revisions',
+  'export.qa': 'Q: {question} — A: {answer}',
+  'export.error.noRecordings': 'No recorded audio in this range',
+
+  'summary.generated': 'Generated {time} • {count} entries',
+  'summary.generate': 'Summarize Session',
+  'summary.regenerate': 'Regenerate',
+  'summary.stale': '{count} entries were added after this summary was generated.',
+  'summary.busy': 'Summarizing the transcript…',
+  'summary.placeholder': 'Summary, key terms, questions and assignments will appear here',
+  'summary.heading': 'Summary • {language}',
+  'summary.keyTerms': 'Key Terms',
+  'summary.questions': 'Questions & Answers',
+  'summary.noAnswer': 'No answer recorded',
+  'summary.assignments': 'Assignments',
+
+  'usage.subtitle': 'Estimates from streamed audio and reported tokens',
+  'usage.thisSession': 'This Session',
+  'usage.allSessions': 'All Sessions',
+  'usage.audioSent': 'Audio Sent',
+  'usage.audioReceived': 'Audio Received',
+  'usage.turns': 'Turns',
+  'usage.inputTokens': 'Input Tokens',
+  'usage.outputTokens': 'Output Tokens',
+  'usage.totalTokens': 'Total Tokens',
+  'usage.cost': 'Estimated Cost',
+  'usage.since': 'All sessions since {time}',
+  'usage.budget': 'Session Budget',
+  'usage.budgetOf': '{cost} of {budget}',
+  'usage.budgetInput': 'Budget (0 = none)',
+  'usage.warnAt': 'Warn at {percent}%',
+  'usage.autoStop': 'Stop at budget',
+  'usage.pricing': 'Pricing',
+  'usage.inputPrice': 'Input / 1M tokens',
+  'usage.outputPrice': 'Output / 1M tokens',
+  'usage.currency': 'Currency',
+  'usage.audioTokensHint': 'When the server reports no token counts, audio is counted at 25 tokens per second.',
+
+  'broadcast.subtitle': 'Students follow captions on their phones',
+  'broadcast.server': 'Relay Server',
+  'broadcast.serverHint': 'The default /relay reaches the relay through the app server. Start the relay on this computer with',
+  'broadcast.localhostHint': "Phones cannot open localhost. Enter this computer's network address so phones on the classroom Wi-Fi can reach it.",
+  'broadcast.studentUrl': 'Student Address',
+  'broadcast.studentUrlHint': 'The app address students open; it goes into the QR code. The microphone only needs a secure page on this computer, so you can keep using localhost here.',
+  'broadcast.open': 'Open Room',
+  'broadcast.joinRoom': 'Join room {code}',
+  'broadcast.listeners': 'Students connected: {count}',
+  'broadcast.close': 'Close Room',
+
+  'audience.title': 'EduTranslate Live • Audience',
+  'audience.smaller': 'Smaller',
+  'audience.larger': 'Larger',
+  'audience.theme.dark': 'Dark',
+  'audience.theme.light': 'Light',
+  'audience.theme.contrast': 'High Contrast',
+  'audience.waiting': 'Waiting for the main EduTranslate window…',
+  'audience.listening': 'Listening…',
+
+  'student.joinTitle': 'Join Class Captions',
+  'student.roomCode': 'ROOM CODE',
+  'student.join': 'Join',
+  'student.live': 'Live',
+  'student.waiting': 'Waiting for teacher',
+  'student.connecting': 'Connecting',
+  'student.closed': 'Room closed',
+  'student.empty': 'No captions yet',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+
+export default en;
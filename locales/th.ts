@@ -0,0 +1,344 @@
+import { Messages } from './en';
+
+const th: Messages = {
+  'common.save': 'บันทึก',
+  'common.cancel': 'ยกเลิก',
+  'common.reset': 'ล้างค่า',
+  'common.unknown': 'ไม่ทราบสาเหตุ',
+  'common.uiLanguage': 'ภาษาของหน้าจอ',
+
+  'role.Professor': 'ผู้สอน',
+  'role.Student': 'นักศึกษา',
+  'roleMode.Auto': 'ตรวจจับอัตโนมัติ',
+  'roleMode.Professor': 'โหมดผู้สอน',
+  'roleMode.Student': 'โหมดนักศึกษา',
+  'voice.Female': 'หญิง',
+  'voice.Male': 'ชาย',
+
+  'language.Thai': 'ไทย',
+  'language.Chinese': 'จีน',
+  'language.Vietnamese': 'เวียดนาม',
+  'language.Japanese': 'ญี่ปุ่น',
+  'language.English': 'อังกฤษ',
+
+  'columns.both': 'ทั้งสองภาษา',
+  'columns.source': 'ต้นฉบับ',
+  'columns.translation': 'คำแปล',
+  'columns.original': 'ต้นฉบับ',
+  'columns.sourceOnly': 'ต้นฉบับเท่านั้น',
+  'columns.translationOnly': 'คำแปลเท่านั้น',
+
+  'app.tagline': 'Enterprise Academic v2.0',
+  'app.toggleTheme': 'สลับธีมสว่าง/มืด',
+  'app.connect': 'เริ่มแปลสด',
+  'app.stop': 'หยุดแปลสด',
+  'app.alert': 'แจ้งเตือนจากระบบ',
+
+  'live.heading': 'กำลังประมวลผล',
+  'live.detectedSpeaker': 'ผู้พูดที่ตรวจพบจากประโยคล่าสุด',
+  'live.live': 'กำลังถ่ายทอด',
+  'live.reconnecting': 'กำลังเชื่อมต่อใหม่',
+  'live.replaying': 'เล่นซ้ำ {speed}×',
+  'live.paused': 'หยุดชั่วคราว',
+  'live.connectionLost': 'การเชื่อมต่อขาดหาย',
+  'live.retry': 'ลองใหม่ครั้งที่ {attempt}/{max} • ออฟไลน์ {seconds} วินาที • เก็บเสียงไว้ชั่วคราวแล้ว',
+  'live.detectedSpeech': 'เสียงพูดที่ตรวจพบ',
+  'live.waitingForVoice': 'กำลังรอเสียงพูด...',
+  'live.translation': 'คำแปลเชิงวิชาการ',
+  'live.readyForOutput': 'ระบบพร้อมแสดงคำแปล...',
+  'live.recordAudio': 'บันทึกเสียงในชั้นเรียน',
+  'live.recordAudioHint': 'เก็บเสียงต้นฉบับและเสียงแปลของทุกประโยค',
+  'live.checkQuality': 'ตรวจคำแปล',
+  'live.checkQualityHint': 'แปลย้อนกลับแต่ละประโยคเป็นภาษาต้นทางในเบื้องหลังและทำเครื่องหมายประโยคที่น่าสงสัย',
+
+  'offline.badge': 'ออฟไลน์',
+  'offline.title': 'ออฟไลน์',
+  'offline.explanation': 'การแปลสดต้องใช้การเชื่อมต่อเครือข่าย แต่ยังเปิด ค้นหา และส่งออกเซสชันที่บันทึกไว้ได้',
+  'offline.connectHint': 'เชื่อมต่ออินเทอร์เน็ตอีกครั้งเพื่อเริ่มการแปลสด',
+
+  'history.title': 'บันทึกการสอน',
+  'history.subtitle': 'บันทึกบทสนทนาในชั้นเรียนอย่างถาวร',
+  'history.empty': 'ยังไม่มีบันทึก',
+  'history.emptyHint': 'เริ่มพูดเพื่อสร้างบันทึก',
+  'history.noMatches': 'ไม่มีรายการที่ตรงกับตัวกรอง',
+
+  'toolbar.audience': 'คำบรรยายสำหรับผู้ฟัง',
+  'toolbar.broadcast': 'ถ่ายทอดในชั้นเรียน',
+  'toolbar.broadcasting': 'กำลังถ่ายทอดไปยังห้อง {code}',
+  'toolbar.glossary': 'อภิธานศัพท์รายวิชา',
+  'toolbar.archive': 'คลังบันทึกการสอน',
+  'toolbar.summary': 'สรุปคาบเรียน',
+  'toolbar.usage': 'การใช้งานและงบประมาณ',
+  'toolbar.export': 'ส่งออก',
+  'toolbar.shortcuts': 'แป้นพิมพ์ลัด',
+  'toolbar.clear': 'ล้างทั้งหมด',
+
+  'footer.active': 'ระบบพร้อมใช้งาน',
+  'footer.role': 'บทบาท: {role}',
+  'footer.voice': 'เสียง: {voice}',
+
+  'error.historyStore': 'ไม่สามารถเปิดคลังบันทึกการสอนได้',
+  'error.relayUnavailable': 'ไม่สามารถเชื่อมต่อเซิร์ฟเวอร์ถ่ายทอดได้ โปรดตรวจสอบว่าเปิด npm run relay แล้ว',
+  'error.budgetWarn': 'ค่าใช้จ่ายโดยประมาณของคาบเรียนนี้ถึง {percent}% ของงบประมาณแล้ว',
+  'error.budgetAutoStopped': 'หยุดการแปลสดอัตโนมัติ เนื่องจากค่าใช้จ่ายโดยประมาณถึงงบประมาณของคาบเรียนแล้ว',
+  'error.budgetExceeded': 'ค่าใช้จ่ายโดยประมาณของคาบเรียนนี้เกินงบประมาณแล้ว',
+  'error.budgetReached': 'ค่าใช้จ่ายโดยประมาณของคาบเรียนนี้ถึงงบประมาณแล้ว โปรดปรับงบประมาณหรือเริ่มคาบเรียนใหม่',
+  'error.secureContext': 'โปรดใช้งานผ่าน HTTPS เท่านั้น (Secure Context required)',
+  'error.offline': 'คุณออฟไลน์อยู่ การแปลสดต้องใช้การเชื่อมต่อเครือข่าย',
+  'error.samePair': 'ภาษาต้นทางและภาษาปลายทางต้องไม่ซ้ำกัน',
+  'error.micPermission': 'โปรดอนุญาตให้เข้าถึงไมโครโฟนในการตั้งค่าเบราว์เซอร์',
+  'error.micNotFound': 'ไม่พบไมโครโฟนบนอุปกรณ์นี้',
+  'error.micFailed': 'ไม่สามารถเปิดไมโครโฟนได้: {message}',
+  'error.connectionLost': 'การเชื่อมต่อกับ AI ขาดหายและไม่สามารถเชื่อมต่อใหม่ได้',
+  'error.connectionFailed': 'พบข้อผิดพลาดในการเชื่อมต่อกับ AI',
+  'error.generic': 'เกิดข้อผิดพลาด: {message}',
+  'error.clipboard': 'เบราว์เซอร์ไม่รองรับการคัดลอก',
+  'error.retranslate': 'แปลใหม่ไม่สำเร็จ: {message}',
+  'error.noRecording': 'ไม่พบไฟล์เสียงของรายการนี้',
+  'error.captionsOnly': 'ปิดเสียงแปลอยู่ขณะเปิดโหมดคำบรรยายอย่างเดียว',
+  'error.playback': 'เล่นเสียงไม่สำเร็จ: {message}',
+  'error.summary': 'สรุปคาบเรียนไม่สำเร็จ: {message}',
+  'error.stopBeforeDelete': 'โปรดหยุดการแปลสดก่อนลบคาบเรียนนี้',
+  'error.stopBeforeOpen': 'โปรดหยุดการแปลสดก่อนเปิดคาบเรียนอื่น',
+  'error.import': 'นำเข้าไฟล์ไม่สำเร็จ: {message}',
+  'error.replayFile': 'เล่นไฟล์ซ้ำไม่สำเร็จ: {message}',
+  'error.export': 'ส่งออกไฟล์ไม่สำเร็จ: {message}',
+  'error.glossaryImport': 'นำเข้าอภิธานศัพท์ไม่สำเร็จ: {message}',
+  'error.typed': 'แปลข้อความที่พิมพ์ไม่สำเร็จ: {message}',
+  'error.speak': 'อ่านคำแปลออกเสียงไม่สำเร็จ: {message}',
+  'error.outputDevice': 'เปลี่ยนอุปกรณ์เสียงออกไม่สำเร็จ: {message}',
+  'error.micSettings': 'ใช้การตั้งค่าไมโครโฟนไม่สำเร็จ: {message}',
+  'confirm.clearHistory': 'ยืนยันการลบประวัติของคาบนี้?',
+  'confirm.deleteSession': 'ยืนยันการลบคาบเรียนนี้ทั้งหมด?',
+
+  'bubble.switchRole': 'สลับบทบาทผู้พูด',
+  'bubble.source': 'ต้นฉบับ: {language}',
+  'bubble.translation': 'คำแปล: {language}',
+  'bubble.corrected': 'แก้ไขแล้ว',
+  'bubble.showRevisions': 'ดูประวัติการแก้ไข',
+  'bubble.playSource': 'เล่นเสียงต้นฉบับ',
+  'bubble.playTranslation': 'เล่นเสียงแปล',
+  'bubble.playSentence': 'เล่นเสียงประโยคนี้',
+  'bubble.edit': 'แก้ไขรายการ',
+  'bubble.copy': 'คัดลอกคำแปล',
+  'bubble.copied': 'คัดลอกแล้ว',
+  'bubble.glossaryMiss': 'ไม่ได้ใช้คำแปลที่กำหนดในอภิธานศัพท์',
+  'bubble.qualityScore': 'ตรงกัน {score}%',
+  'bubble.qualityHint': 'คำแปลย้อนกลับตรงกับสิ่งที่พูดมากน้อยเพียงใด คลิกเพื่อแสดง',
+  'bubble.markReviewed': 'ทำเครื่องหมายว่าตรวจแล้ว',
+  'bubble.backTranslation': 'คำแปลย้อนกลับ',
+  'romanization.pinyin': 'แสดงพินอินเหนือข้อความภาษาจีน',
+  'romanization.thai': 'แสดงคำอ่านอักษรโรมัน (RTGS) เหนือข้อความ',
+  'romanization.toggle': 'แสดงพินอินและคำอ่านอักษรโรมัน',
+  'quality.number': 'ตัวเลขเปลี่ยน: {detail}',
+  'quality.name': 'ชื่อหายไป: {detail}',
+  'quality.negation': 'การปฏิเสธเปลี่ยน ({detail})',
+  'bubble.retranslate': 'แปลใหม่',
+  'bubble.retranslateHint': 'แปลข้อความต้นฉบับที่แก้ไขแล้วอีกครั้ง',
+  'bubble.typed': 'พิมพ์',
+  'revision.edit': 'แก้ไขเมื่อ {time}',
+  'revision.retranslate': 'แปลใหม่เมื่อ {time}',
+
+  'search.placeholder': 'ค้นหาในต้นฉบับและคำแปล',
+  'search.noMatches': 'ไม่พบผลลัพธ์',
+  'search.previous': 'ผลลัพธ์ก่อนหน้า (Shift+Enter)',
+  'search.next': 'ผลลัพธ์ถัดไป (Enter)',
+  'search.filters': 'ตัวกรอง',
+  'search.allSpeakers': 'ผู้พูดทั้งหมด',
+  'search.allLanguages': 'ทุกภาษา',
+  'search.shown': '{shown} จาก {total}',
+  'search.reviewFlagged': 'ตรวจรายการที่ถูกทำเครื่องหมาย ({count})',
+  'search.reviewFlaggedHint': 'แสดงเฉพาะคำแปลที่การตรวจคุณภาพทำเครื่องหมายไว้',
+
+  'typed.placeholder': 'พิมพ์หรือวางข้อความเพื่อแปล (Enter เพื่อส่ง, Shift+Enter เพื่อขึ้นบรรทัดใหม่)',
+  'typed.send': 'ส่ง',
+  'typed.waitForTurn': 'โปรดรอให้การพูดในรอบปัจจุบันจบก่อน',
+  'typed.live': 'ส่งเข้าการแปลสด',
+  'typed.textOnly': 'แปลเป็นข้อความ',
+  'typed.speak': 'อ่านออกเสียง',
+
+  'languagePairs.locked': 'หยุดการแปลสดก่อนเปลี่ยนภาษา',
+
+  'vad.micIdle': 'ไมโครโฟนว่าง',
+  'vad.streamingAll': 'ส่งเสียงทั้งหมด',
+  'vad.speech': 'มีเสียงพูด',
+  'vad.silence': 'เงียบ',
+  'vad.gateOn': 'ส่งเฉพาะช่วงที่มีเสียงพูดไปยังตัวแปล',
+  'vad.gateOff': 'ส่งเสียงทั้งหมดไปยังตัวแปล',
+  'vad.noiseGate': 'กรองเสียงรบกวน',
+  'vad.sensitivity': 'ความไว {value}%',
+  'vad.hangover': 'หน่วงปิด {value} มิลลิวินาที',
+
+  'output.captionsOnly': 'คำบรรยายอย่างเดียว',
+  'output.captionsOnlyHint': 'แสดงคำแปลโดยไม่เล่นเสียงแปล',
+  'output.stop': 'หยุดเสียง',
+  'output.volume': 'ระดับเสียง {value}%',
+  'output.rate': 'ความเร็ว {value}×',
+  'output.device': 'อุปกรณ์เสียงออก',
+  'output.defaultDevice': 'ค่าเริ่มต้นของระบบ',
+  'output.deviceFallback': 'ลำโพง {index}',
+
+  'mic.device': 'ไมโครโฟน',
+  'mic.deviceLocked': 'หยุดเซสชันก่อนเพื่อเปลี่ยนไมโครโฟน',
+  'mic.defaultDevice': 'ค่าเริ่มต้นของระบบ',
+  'mic.deviceFallback': 'ไมโครโฟน {index}',
+  'mic.echoCancellation': 'ตัดเสียงสะท้อน',
+  'mic.noiseSuppression': 'ลดเสียงรบกวน',
+  'mic.autoGainControl': 'ปรับระดับอัตโนมัติ',
+  'mic.gain': 'อัตราขยายเสียงเข้า {value}×',
+  'mic.level': 'ระดับเสียงเข้า',
+  'mic.health.clipping': 'เสียงเข้าดังจนแตก ลดอัตราขยายหรือขยับไมค์ให้ห่างขึ้น',
+  'mic.health.quiet': 'เสียงเข้าเบามาก เพิ่มอัตราขยายหรือตรวจสอบไมค์',
+  'mic.health.muted': 'ไมโครโฟนถูกปิดเสียง',
+  'mic.health.ended': 'ไมโครโฟนถูกตัดการเชื่อมต่อ',
+
+  'replay.capture': 'บันทึกสตรีม',
+  'replay.captureHint': 'บันทึกข้อความ Live ดิบของรอบถัดไปเพื่อเล่นซ้ำแบบออฟไลน์',
+  'replay.save': 'บันทึกไฟล์สตรีม',
+  'replay.speed': 'ความเร็วในการเล่นซ้ำ',
+  'replay.speedOption': '{value}×',
+  'replay.replay': 'เล่นไฟล์ซ้ำ',
+  'replay.replayHint': 'เล่นไฟล์ที่บันทึกไว้ผ่านบันทึกการแปลโดยไม่ต้องเชื่อมต่อ ความเร็วที่สูงกว่าปกติจะไม่มีเสียง',
+
+  'talk.continuous': 'ต่อเนื่อง',
+  'talk.pushToTalk': 'กดเพื่อพูด',
+  'talk.modeLocked': 'หยุดเซสชันก่อนเพื่อเปลี่ยนวิธีใช้ไมโครโฟน',
+  'talk.pause': 'หยุดไมค์ชั่วคราว',
+  'talk.resume': 'เปิดไมค์ต่อ',
+  'talk.hold': 'กดค้างเพื่อพูด ({key})',
+  'talk.talking': 'กำลังพูด… ปล่อยเพื่อแปล',
+
+  'shortcuts.title': 'แป้นพิมพ์ลัด',
+  'shortcuts.subtitle': 'คลิกที่ปุ่มลัด แล้วกดแป้นใหม่',
+  'shortcuts.change': 'เปลี่ยนแป้นพิมพ์ลัด',
+  'shortcuts.pressKeys': 'กดแป้น…',
+  'shortcuts.unset': 'ไม่ได้ตั้งค่า',
+  'shortcuts.action.toggleSession': 'เชื่อมต่อ / หยุด',
+  'shortcuts.action.switchRole': 'สลับบทบาท',
+  'shortcuts.action.pushToTalk': 'กดเพื่อพูด (กดค้าง)',
+  'shortcuts.action.pauseInput': 'หยุด / เปิดไมค์ต่อ',
+  'shortcuts.action.pauseOutput': 'หยุด / เล่นเสียงแปลต่อ',
+  'shortcuts.action.export': 'ส่งออกบันทึก',
+  'shortcuts.action.help': 'แสดงแป้นพิมพ์ลัด',
+
+  'archive.count': 'บันทึกไว้ {count} คาบ',
+  'archive.import': 'นำเข้า',
+  'archive.importHint': 'นำเข้าไฟล์ JSON ที่ส่งออกไว้',
+  'archive.className': 'ชื่อคาบเรียน',
+  'archive.courseCode': 'รหัสวิชา',
+  'archive.participants': 'ผู้เข้าร่วม (คั่นด้วยจุลภาค)',
+  'archive.newClass': 'คาบเรียนใหม่',
+  'archive.defaultName': 'คาบเรียน {date}',
+  'archive.importedHistory': 'ประวัติที่นำเข้า',
+  'archive.importedSession': 'คาบเรียนที่นำเข้า',
+  'archive.empty': 'ยังไม่มีคาบเรียนที่บันทึกไว้',
+  'archive.open': 'เปิดอยู่',
+  'archive.openAction': 'เปิด',
+  'archive.openHint': 'เปิดและบันทึกต่อ',
+  'archive.editDetails': 'แก้ไขรายละเอียด',
+  'archive.delete': 'ลบคาบเรียน',
+  'archive.entries': '{count} รายการ',
+
+  'glossary.general': 'ทั่วไป',
+  'glossary.count': '{count} คำ',
+  'glossary.nextConnect': 'การเปลี่ยนแปลงจะมีผลเมื่อเริ่มแปลสดครั้งถัดไป',
+  'glossary.note': 'หมายเหตุ',
+  'glossary.importCsv': 'นำเข้า CSV',
+  'glossary.exportCsv': 'ส่งออก CSV',
+  'glossary.remove': 'ลบคำศัพท์',
+  'glossary.add': 'เพิ่มคำศัพท์',
+
+  'export.title': 'ส่งออกบันทึก',
+  'export.format': 'รูปแบบไฟล์',
+  'export.format.txt': 'ข้อความ',
+  'export.format.srt': 'SRT',
+  'export.format.vtt': 'WebVTT',
+  'export.format.md': 'Markdown',
+  'export.format.docx': 'Word',
+  'export.format.json': 'JSON',
+  'export.format.wav': 'เสียง',
+  'export.columns': 'คอลัมน์ภาษา',
+  'export.jsonHint': 'ไฟล์ JSON ส่งออกทั้งคาบเรียนพร้อมทุกช่องและทุกฉบับแก้ไข จึงนำเข้ากลับมาได้',
+  'export.wavHint': 'เสียงที่บันทึกไว้ตามลำดับ: เสียงพูดต้นฉบับตามด้วยเสียงแปล',
+  'export.includeSummary': 'รวมสรุปคาบเรียน',
+  'export.includeRevisions': 'รวมประวัติการแก้ไข',
+  'export.includeRomanization': 'เพิ่มพินอินและคำอ่านอักษรโรมัน',
+  'export.range': 'ช่วงเวลา',
+  'export.run': 'ส่งออก {count} รายการ',
+  'export.runOne': 'ส่งออก 1 รายการ',
+  'export.transcript': 'บทถอดความ',
+  'export.course': 'รหัสวิชา: {code}',
+  'export.date': 'วันที่: {date}',
+  'export.participants': 'ผู้เข้าร่วม: {names}',
+  'export.column.time': 'เวลา',
+  'export.column.role': 'บทบาท',
+  'export.column.languages': 'ภาษา',
+  'export.column.revisions': 'ประวัติการแก้ไข',
+  'export.qa': 'ถาม: {question} — ตอบ: {answer}',
+  'export.error.noRecordings': 'ไม่มีเสียงที่บันทึกไว้ในช่วงเวลานี้',
+
+  'summary.generated': 'สร้างเมื่อ {time} • {count} รายการ',
+  'summary.generate': 'สรุปคาบเรียน',
+  'summary.regenerate': 'สรุปใหม่',
+  'summary.stale': 'มี {count} รายการที่เพิ่มเข้ามาหลังจากสร้างสรุปนี้',
+  'summary.busy': 'กำลังสรุปบันทึก…',
+  'summary.placeholder': 'สรุป คำศัพท์สำคัญ คำถาม และงานที่มอบหมายจะแสดงที่นี่',
+  'summary.heading': 'สรุป • {language}',
+  'summary.keyTerms': 'คำศัพท์สำคัญ',
+  'summary.questions': 'คำถามและคำตอบ',
+  'summary.noAnswer': 'ไม่มีคำตอบในบันทึก',
+  'summary.assignments': 'งานที่มอบหมาย',
+
+  'usage.subtitle': 'ประมาณการจากเสียงที่ส่งและจำนวนโทเคนที่ระบบรายงาน',
+  'usage.thisSession': 'คาบนี้',
+  'usage.allSessions': 'ทุกคาบ',
+  'usage.audioSent': 'เสียงที่ส่ง',
+  'usage.audioReceived': 'เสียงที่ได้รับ',
+  'usage.turns': 'จำนวนประโยค',
+  'usage.inputTokens': 'โทเคนขาเข้า',
+  'usage.outputTokens': 'โทเคนขาออก',
+  'usage.totalTokens': 'โทเคนทั้งหมด',
+  'usage.cost': 'ค่าใช้จ่ายโดยประมาณ',
+  'usage.since': 'ทุกคาบตั้งแต่ {time}',
+  'usage.budget': 'งบประมาณต่อคาบ',
+  'usage.budgetOf': '{cost} จาก {budget}',
+  'usage.budgetInput': 'งบประมาณ (0 = ไม่จำกัด)',
+  'usage.warnAt': 'เตือนที่ {percent}%',
+  'usage.autoStop': 'หยุดเมื่อถึงงบประมาณ',
+  'usage.pricing': 'อัตราค่าบริการ',
+  'usage.inputPrice': 'ขาเข้า / 1 ล้านโทเคน',
+  'usage.outputPrice': 'ขาออก / 1 ล้านโทเคน',
+  'usage.currency': 'สกุลเงิน',
+  'usage.audioTokensHint': 'หากระบบไม่รายงานจำนวนโทเคน จะคิดเสียงเป็น 25 โทเคนต่อวินาที',
+
+  'broadcast.subtitle': 'นักศึกษาดูคำบรรยายผ่านโทรศัพท์ของตนเอง',
+  'broadcast.server': 'เซิร์ฟเวอร์ถ่ายทอด',
+  'broadcast.serverHint': 'ค่าเริ่มต้น /relay เชื่อมต่อเซิร์ฟเวอร์ถ่ายทอดผ่านเซิร์ฟเวอร์ของแอป เปิดเซิร์ฟเวอร์ถ่ายทอดบนคอมพิวเตอร์เครื่องนี้ด้วยคำสั่ง',
+  'broadcast.localhostHint': 'โทรศัพท์เปิด localhost ไม่ได้ โปรดใส่ที่อยู่เครือข่ายของคอมพิวเตอร์ เพื่อให้โทรศัพท์ที่ใช้ Wi-Fi ของห้องเรียนเข้าถึงได้',
+  'broadcast.studentUrl': 'ที่อยู่สำหรับนักศึกษา',
+  'broadcast.studentUrlHint': 'ที่อยู่ของแอปที่นักศึกษาเปิด ซึ่งจะอยู่ใน QR code ไมโครโฟนต้องการเพียงหน้าที่ปลอดภัยบนคอมพิวเตอร์เครื่องนี้ จึงยังใช้ localhost ที่นี่ได้',
+  'broadcast.open': 'เปิดห้อง',
+  'broadcast.joinRoom': 'เข้าห้อง {code}',
+  'broadcast.listeners': 'นักศึกษาที่เชื่อมต่อ: {count}',
+  'broadcast.close': 'ปิดห้อง',
+
+  'audience.title': 'EduTranslate Live • ผู้ฟัง',
+  'audience.smaller': 'เล็กลง',
+  'audience.larger': 'ใหญ่ขึ้น',
+  'audience.theme.dark': 'มืด',
+  'audience.theme.light': 'สว่าง',
+  'audience.theme.contrast': 'คอนทราสต์สูง',
+  'audience.waiting': 'กำลังรอหน้าต่างหลักของ EduTranslate…',
+  'audience.listening': 'กำลังฟัง…',
+
+  'student.joinTitle': 'เข้าร่วมดูคำบรรยาย',
+  'student.roomCode': 'รหัสห้อง',
+  'student.join': 'เข้าร่วม',
+  'student.live': 'กำลังถ่ายทอด',
+  'student.waiting': 'กำลังรอผู้สอน',
+  'student.connecting': 'กำลังเชื่อมต่อ',
+  'student.closed': 'ห้องปิดแล้ว',
+  'student.empty': 'ยังไม่มีคำบรรยาย',
+};
+
+export default th;
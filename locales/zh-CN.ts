@@ -0,0 +1,344 @@
+import { Messages } from './en';
+
+const zhCN: Messages = {
+  'common.save': '保存',
+  'common.cancel': '取消',
+  'common.reset': '重置',
+  'common.unknown': '未知错误',
+  'common.uiLanguage': '界面语言',
+
+  'role.Professor': '教师',
+  'role.Student': '学生',
+  'roleMode.Auto': '自动识别',
+  'roleMode.Professor': '教师模式',
+  'roleMode.Student': '学生模式',
+  'voice.Female': '女声',
+  'voice.Male': '男声',
+
+  'language.Thai': '泰语',
+  'language.Chinese': '中文',
+  'language.Vietnamese': '越南语',
+  'language.Japanese': '日语',
+  'language.English': '英语',
+
+  'columns.both': '双语',
+  'columns.source': '原文',
+  'columns.translation': '译文',
+  'columns.original': '原文',
+  'columns.sourceOnly': '仅原文',
+  'columns.translationOnly': '仅译文',
+
+  'app.tagline': 'Enterprise Academic v2.0',
+  'app.toggleTheme': '切换浅色/深色主题',
+  'app.connect': '开始同传',
+  'app.stop': '停止同传',
+  'app.alert': '系统提示',
+
+  'live.heading': '实时处理',
+  'live.detectedSpeaker': '根据上一句识别的说话人',
+  'live.live': '直播中',
+  'live.reconnecting': '正在重新连接',
+  'live.replaying': '回放 {speed}×',
+  'live.paused': '已暂停',
+  'live.connectionLost': '连接已断开',
+  'live.retry': '第 {attempt}/{max} 次重试 • 离线 {seconds} 秒 • 音频已缓存',
+  'live.detectedSpeech': '识别到的语音',
+  'live.waitingForVoice': '正在等待语音...',
+  'live.translation': '学术翻译',
+  'live.readyForOutput': '系统已准备好输出译文...',
+  'live.recordAudio': '录制课堂音频',
+  'live.recordAudioHint': '保存每一句的原声和译音',
+  'live.checkQuality': '检查译文',
+  'live.checkQualityHint': '在后台将每一句回译为源语言，并标记可疑的译文',
+
+  'offline.badge': '离线',
+  'offline.title': '离线',
+  'offline.explanation': '实时翻译需要网络连接。已保存的会话仍可打开、搜索和导出。',
+  'offline.connectHint': '恢复网络连接后即可开始实时翻译',
+
+  'history.title': '课堂记录',
+  'history.subtitle': '课堂对话的永久记录',
+  'history.empty': '暂无记录',
+  'history.emptyHint': '开始讲话即可生成记录',
+  'history.noMatches': '没有符合筛选条件的条目',
+
+  'toolbar.audience': '观众字幕',
+  'toolbar.broadcast': '课堂广播',
+  'toolbar.broadcasting': '正在向房间 {code} 广播',
+  'toolbar.glossary': '课程术语表',
+  'toolbar.archive': '课堂档案',
+  'toolbar.summary': '课堂总结',
+  'toolbar.usage': '用量与预算',
+  'toolbar.export': '导出',
+  'toolbar.shortcuts': '键盘快捷键',
+  'toolbar.clear': '全部清除',
+
+  'footer.active': '系统运行中',
+  'footer.role': '角色：{role}',
+  'footer.voice': '声音：{voice}',
+
+  'error.historyStore': '无法打开课堂档案',
+  'error.relayUnavailable': '无法连接广播服务器，请确认已运行 npm run relay',
+  'error.budgetWarn': '本节课的预估费用已达到预算的 {percent}%',
+  'error.budgetAutoStopped': '预估费用已达到本节课预算，同传已自动停止',
+  'error.budgetExceeded': '本节课的预估费用已超出预算',
+  'error.budgetReached': '本节课的预估费用已达到预算，请调整预算或开始新的课堂',
+  'error.secureContext': '请通过 HTTPS 访问（需要安全上下文）',
+  'error.offline': '当前处于离线状态，实时会话需要网络连接',
+  'error.samePair': '源语言和目标语言不能相同',
+  'error.micPermission': '请在浏览器设置中允许使用麦克风',
+  'error.micNotFound': '此设备上未找到麦克风',
+  'error.micFailed': '无法打开麦克风：{message}',
+  'error.connectionLost': '与 AI 的连接已断开，且无法重新连接',
+  'error.connectionFailed': '连接 AI 时出错',
+  'error.generic': '发生错误：{message}',
+  'error.clipboard': '此浏览器不支持复制',
+  'error.retranslate': '重新翻译失败：{message}',
+  'error.noRecording': '未找到该条目的录音',
+  'error.captionsOnly': '已开启仅字幕，不播放译音',
+  'error.playback': '播放失败：{message}',
+  'error.summary': '课堂总结失败：{message}',
+  'error.stopBeforeDelete': '请先停止同传再删除本节课',
+  'error.stopBeforeOpen': '请先停止同传再打开其他课堂',
+  'error.import': '导入失败：{message}',
+  'error.replayFile': '无法回放该文件：{message}',
+  'error.export': '导出失败：{message}',
+  'error.glossaryImport': '术语表导入失败：{message}',
+  'error.typed': '输入文本翻译失败：{message}',
+  'error.speak': '朗读译文失败：{message}',
+  'error.outputDevice': '无法切换音频输出：{message}',
+  'error.micSettings': '无法应用麦克风设置：{message}',
+  'confirm.clearHistory': '确定要删除本节课的记录吗？',
+  'confirm.deleteSession': '确定要删除整节课吗？',
+
+  'bubble.switchRole': '切换说话人角色',
+  'bubble.source': '原文：{language}',
+  'bubble.translation': '译文：{language}',
+  'bubble.corrected': '已更正',
+  'bubble.showRevisions': '查看修订历史',
+  'bubble.playSource': '播放原声',
+  'bubble.playTranslation': '播放译音',
+  'bubble.playSentence': '播放这一句',
+  'bubble.edit': '编辑条目',
+  'bubble.copy': '复制译文',
+  'bubble.copied': '已复制',
+  'bubble.glossaryMiss': '未使用术语表中规定的译法',
+  'bubble.qualityScore': '吻合度 {score}%',
+  'bubble.qualityHint': '回译与原话的吻合程度；点击查看回译',
+  'bubble.markReviewed': '标记为已检查',
+  'bubble.backTranslation': '回译',
+  'romanization.pinyin': '在中文上方显示拼音',
+  'romanization.thai': '在泰文上方显示罗马字转写 (RTGS)',
+  'romanization.toggle': '显示拼音和泰文罗马字',
+  'quality.number': '数字有变：{detail}',
+  'quality.name': '缺少名称：{detail}',
+  'quality.negation': '否定有变（{detail}）',
+  'bubble.retranslate': '重新翻译',
+  'bubble.retranslateHint': '重新翻译更正后的原文',
+  'bubble.typed': '键入',
+  'revision.edit': '编辑于 {time}',
+  'revision.retranslate': '重新翻译于 {time}',
+
+  'search.placeholder': '搜索原文和译文',
+  'search.noMatches': '无匹配结果',
+  'search.previous': '上一个匹配 (Shift+Enter)',
+  'search.next': '下一个匹配 (Enter)',
+  'search.filters': '筛选',
+  'search.allSpeakers': '所有说话人',
+  'search.allLanguages': '所有语言',
+  'search.shown': '{shown} / {total}',
+  'search.reviewFlagged': '审阅已标记（{count}）',
+  'search.reviewFlaggedHint': '只显示质量检查标记的译文',
+
+  'typed.placeholder': '输入或粘贴要翻译的文本（Enter 发送，Shift+Enter 换行）',
+  'typed.send': '发送',
+  'typed.waitForTurn': '请等待当前语音轮次结束',
+  'typed.live': '发送到同传会话',
+  'typed.textOnly': '以文本方式翻译',
+  'typed.speak': '朗读',
+
+  'languagePairs.locked': '请先停止同传再更改语言',
+
+  'vad.micIdle': '麦克风空闲',
+  'vad.streamingAll': '发送全部音频',
+  'vad.speech': '有语音',
+  'vad.silence': '静音',
+  'vad.gateOn': '仅将语音部分发送给翻译',
+  'vad.gateOff': '发送全部音频',
+  'vad.noiseGate': '噪声门',
+  'vad.sensitivity': '灵敏度 {value}%',
+  'vad.hangover': '延迟关闭 {value} 毫秒',
+
+  'output.captionsOnly': '仅字幕',
+  'output.captionsOnlyHint': '只显示译文，不播放译音',
+  'output.stop': '停止播放',
+  'output.volume': '音量 {value}%',
+  'output.rate': '语速 {value}×',
+  'output.device': '输出设备',
+  'output.defaultDevice': '系统默认',
+  'output.deviceFallback': '扬声器 {index}',
+
+  'mic.device': '麦克风',
+  'mic.deviceLocked': '停止会话后才能切换麦克风',
+  'mic.defaultDevice': '系统默认',
+  'mic.deviceFallback': '麦克风 {index}',
+  'mic.echoCancellation': '回声消除',
+  'mic.noiseSuppression': '降噪',
+  'mic.autoGainControl': '自动增益',
+  'mic.gain': '输入增益 {value}×',
+  'mic.level': '输入电平',
+  'mic.health.clipping': '输入削波，请降低增益或让麦克风远一些',
+  'mic.health.quiet': '输入音量很低，请提高增益或检查麦克风',
+  'mic.health.muted': '麦克风已静音',
+  'mic.health.ended': '麦克风已断开',
+
+  'replay.capture': '捕获数据流',
+  'replay.captureHint': '保存下一次运行的原始 Live 消息，以便离线回放',
+  'replay.save': '保存捕获',
+  'replay.speed': '回放速度',
+  'replay.speedOption': '{value}×',
+  'replay.replay': '回放文件',
+  'replay.replayHint': '无需连接即可将已保存的捕获回放到记录中；加速回放时不播放声音',
+
+  'talk.continuous': '持续',
+  'talk.pushToTalk': '按住说话',
+  'talk.modeLocked': '停止会话后才能更改麦克风使用方式',
+  'talk.pause': '暂停麦克风',
+  'talk.resume': '恢复麦克风',
+  'talk.hold': '按住说话（{key}）',
+  'talk.talking': '正在说话… 松开即翻译',
+
+  'shortcuts.title': '键盘快捷键',
+  'shortcuts.subtitle': '点击快捷键，然后按下新的按键',
+  'shortcuts.change': '更改快捷键',
+  'shortcuts.pressKeys': '请按键…',
+  'shortcuts.unset': '未设置',
+  'shortcuts.action.toggleSession': '连接 / 停止',
+  'shortcuts.action.switchRole': '切换角色',
+  'shortcuts.action.pushToTalk': '按住说话（按住）',
+  'shortcuts.action.pauseInput': '暂停 / 恢复麦克风',
+  'shortcuts.action.pauseOutput': '暂停 / 恢复译音',
+  'shortcuts.action.export': '导出记录',
+  'shortcuts.action.help': '显示快捷键',
+
+  'archive.count': '已保存 {count} 节课',
+  'archive.import': '导入',
+  'archive.importHint': '导入 JSON 导出文件',
+  'archive.className': '课堂名称',
+  'archive.courseCode': '课程代码',
+  'archive.participants': '参与者（用逗号分隔）',
+  'archive.newClass': '新建课堂',
+  'archive.defaultName': '课程 {date}',
+  'archive.importedHistory': '导入的历史记录',
+  'archive.importedSession': '导入的课程',
+  'archive.empty': '暂无已保存的课堂',
+  'archive.open': '已打开',
+  'archive.openAction': '打开',
+  'archive.openHint': '打开并继续',
+  'archive.editDetails': '编辑详情',
+  'archive.delete': '删除课堂',
+  'archive.entries': '{count} 条',
+
+  'glossary.general': '通用',
+  'glossary.count': '{count} 个术语',
+  'glossary.nextConnect': '更改将在下次开始同传时生效',
+  'glossary.note': '备注',
+  'glossary.importCsv': '导入 CSV',
+  'glossary.exportCsv': '导出 CSV',
+  'glossary.remove': '删除术语',
+  'glossary.add': '添加术语',
+
+  'export.title': '导出记录',
+  'export.format': '格式',
+  'export.format.txt': '文本',
+  'export.format.srt': 'SRT',
+  'export.format.vtt': 'WebVTT',
+  'export.format.md': 'Markdown',
+  'export.format.docx': 'Word',
+  'export.format.json': 'JSON',
+  'export.format.wav': '音频',
+  'export.columns': '语言列',
+  'export.jsonHint': 'JSON 导出整个课程的所有字段和修订记录，可以重新导入。',
+  'export.wavHint': '按顺序导出录音：原声后接译音。',
+  'export.includeSummary': '包含课堂总结',
+  'export.includeRevisions': '包含修订历史',
+  'export.includeRomanization': '附加拼音和泰文罗马字',
+  'export.range': '时间范围',
+  'export.run': '导出 {count} 条',
+  'export.runOne': '导出 1 条',
+  'export.transcript': '转录',
+  'export.course': '课程：{code}',
+  'export.date': '日期：{date}',
+  'export.participants': '参与者：{names}',
+  'export.column.time': '时间',
+  'export.column.role': '角色',
+  'export.column.languages': '语言',
+  'export.column.revisions': '修订记录',
+  'export.qa': '问：{question} — 答：{answer}',
+  'export.error.noRecordings': '此时间范围内没有录音',
+
+  'summary.generated': '生成于 {time} • {count} 条',
+  'summary.generate': '总结本节课',
+  'summary.regenerate': '重新生成',
+  'summary.stale': '生成此总结后又新增了 {count} 条记录。',
+  'summary.busy': '正在总结记录…',
+  'summary.placeholder': '总结、关键术语、问题和作业将显示在这里',
+  'summary.heading': '总结 • {language}',
+  'summary.keyTerms': '关键术语',
+  'summary.questions': '问题与解答',
+  'summary.noAnswer': '记录中没有答案',
+  'summary.assignments': '作业',
+
+  'usage.subtitle': '根据发送的音频和上报的令牌数估算',
+  'usage.thisSession': '本节课',
+  'usage.allSessions': '所有课堂',
+  'usage.audioSent': '发送的音频',
+  'usage.audioReceived': '接收的音频',
+  'usage.turns': '轮次',
+  'usage.inputTokens': '输入令牌',
+  'usage.outputTokens': '输出令牌',
+  'usage.totalTokens': '令牌总数',
+  'usage.cost': '预估费用',
+  'usage.since': '自 {time} 以来的所有课堂',
+  'usage.budget': '每节课预算',
+  'usage.budgetOf': '{cost} / {budget}',
+  'usage.budgetInput': '预算（0 = 不限）',
+  'usage.warnAt': '在 {percent}% 时提醒',
+  'usage.autoStop': '达到预算时停止',
+  'usage.pricing': '价格',
+  'usage.inputPrice': '输入 / 百万令牌',
+  'usage.outputPrice': '输出 / 百万令牌',
+  'usage.currency': '货币',
+  'usage.audioTokensHint': '服务器未上报令牌数时，音频按每秒 25 个令牌计算。',
+
+  'broadcast.subtitle': '学生在手机上查看字幕',
+  'broadcast.server': '中继服务器',
+  'broadcast.serverHint': '默认的 /relay 通过应用服务器连接中继。在本机上启动中继：',
+  'broadcast.localhostHint': '手机无法打开 localhost。请输入本机的网络地址，以便连接教室 Wi-Fi 的手机能够访问。',
+  'broadcast.studentUrl': '学生访问地址',
+  'broadcast.studentUrlHint': '学生打开的应用地址，会写入二维码。麦克风只要求本机上的页面是安全的，因此这里仍可使用 localhost。',
+  'broadcast.open': '开启房间',
+  'broadcast.joinRoom': '加入房间 {code}',
+  'broadcast.listeners': '已连接学生：{count}',
+  'broadcast.close': '关闭房间',
+
+  'audience.title': 'EduTranslate Live • 观众',
+  'audience.smaller': '缩小',
+  'audience.larger': '放大',
+  'audience.theme.dark': '深色',
+  'audience.theme.light': '浅色',
+  'audience.theme.contrast': '高对比度',
+  'audience.waiting': '正在等待 EduTranslate 主窗口…',
+  'audience.listening': '正在聆听…',
+
+  'student.joinTitle': '加入课堂字幕',
+  'student.roomCode': '房间代码',
+  'student.join': '加入',
+  'student.live': '直播中',
+  'student.waiting': '等待教师开始',
+  'student.connecting': '正在连接',
+  'student.closed': '房间已关闭',
+  'student.empty': '暂无字幕',
+};
+
+export default zhCN;
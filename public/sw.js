@@ -0,0 +1,128 @@
+// Service worker for the installed app. It keeps the app shell, icons and the CDN
+// styles and fonts it depends on, so stored lecture history opens without a network.
+// Gemini, the caption relay and every other request go straight to the network.
+
+const VERSION = 'v1';
+const SHELL_CACHE = `edutranslate-shell-${VERSION}`;
+const RUNTIME_CACHE = `edutranslate-runtime-${VERSION}`;
+
+const SHELL_URLS = ['./', './index.html', './manifest.webmanifest', './icons/icon.svg', './icons/icon-maskable.svg'];
+const CDN_URLS = [
+  'https://cdn.tailwindcss.com',
+  'https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.4.0/css/all.min.css',
+  'https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.4.0/webfonts/fa-solid-900.woff2',
+  'https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.4.0/webfonts/fa-regular-400.woff2',
+  'https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.4.0/webfonts/fa-brands-400.woff2',
+];
+// Cross-origin hosts whose responses are part of the shell; anything else is never cached.
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'cdnjs.cloudflare.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
+
+const sameOrigin = (paths, base) => paths
+  .map(path => new URL(path, base))
+  .filter(url => url.origin === self.location.origin)
+  .map(url => url.href);
+
+// The built bundle has hashed names, so they are read from the shell page, and the lazily
+// loaded chunks (such as the DOCX export) from the entry scripts.
+async function bundleUrls() {
+  const html = await (await fetch('./index.html', { cache: 'no-cache' })).text();
+  const entries = sameOrigin([...html.matchAll(/(?:src|href)="([^"]+\.(?:js|css))"/g)].map(m => m[1]), self.registration.scope);
+  const chunks = await Promise.all(entries.filter(url => url.endsWith('.js')).map(async url => {
+    const source = await (await fetch(url)).text();
+    return [
+      ...sameOrigin([...source.matchAll(/\.\/[\w.-]+\.(?:js|css)/g)].map(m => m[0]), url),
+      ...sameOrigin([...source.matchAll(/\bassets\/[\w.-]+\.(?:js|css)/g)].map(m => m[0]), self.registration.scope),
+    ];
+  }));
+  return [...new Set([...entries, ...chunks.flat()])];
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const shell = await caches.open(SHELL_CACHE);
+    await shell.addAll([...SHELL_URLS, ...await bundleUrls()]);
+    // CDN files are opaque to the worker; one that fails is fetched again at runtime.
+    await Promise.all(CDN_URLS.map(async url => {
+      try {
+        await shell.put(url, await fetch(url, { mode: 'no-cors' }));
+      } catch (e) {}
+    }));
+    await self.skipWaiting();
+  })());
+});
+
+// Scripts and styles of earlier builds are dropped once the current bundle is known, so
+// the caches do not grow with every deploy. Offline, they are kept until the next update.
+async function pruneBundles() {
+  let current;
+  try {
+    current = new Set(await bundleUrls());
+  } catch (e) {
+    return;
+  }
+  await Promise.all([SHELL_CACHE, RUNTIME_CACHE].map(async name => {
+    const cache = await caches.open(name);
+    const stale = (await cache.keys()).filter(request => {
+      const url = new URL(request.url);
+      return url.origin === self.location.origin && /\.(?:js|css)$/.test(url.pathname) && !current.has(url.href);
+    });
+    await Promise.all(stale.map(request => cache.delete(request)));
+  }));
+}
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keep = [SHELL_CACHE, RUNTIME_CACHE];
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name.startsWith('edutranslate-') && !keep.includes(name)).map(name => caches.delete(name)));
+    await pruneBundles();
+    await self.clients.claim();
+  })());
+});
+
+// Pages come from the network while online so a new build is picked up, and from the shell offline.
+async function handleNavigation(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.put('./index.html', response.clone());
+    }
+    return response;
+  } catch (e) {
+    return (await caches.match('./index.html')) || Response.error();
+  }
+}
+
+// Assets are served from cache at once and refreshed in the background.
+async function handleAsset(request) {
+  const cached = await caches.match(request);
+  const refresh = fetch(request).then(async response => {
+    if (response.ok || response.type === 'opaque') {
+      const runtime = await caches.open(RUNTIME_CACHE);
+      await runtime.put(request, response.clone());
+    }
+    return response;
+  });
+  if (cached) {
+    refresh.catch(() => {});
+    return cached;
+  }
+  return refresh;
+}
+
+// Same-origin files that are part of the shell; the relay and anything else dynamic are not.
+const STATIC_ASSET = /\.(?:js|css|svg|png|ico|woff2?|webmanifest)$/;
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  // Caption streams never end, so caching one would hold the response forever.
+  if (url.pathname.startsWith('/relay/') || request.headers.get('Accept')?.includes('text/event-stream')) return;
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(handleNavigation(request));
+  } else if (url.origin === self.location.origin ? STATIC_ASSET.test(url.pathname) : CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(handleAsset(request));
+  }
+});
@@ -0,0 +1,160 @@
+// Classroom caption relay. The host app creates a room and posts caption updates;
+// students subscribe to the room over Server-Sent Events and only ever read.
+//
+//   npm run relay            (PORT defaults to 8787)
+
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+// Room codes avoid look-alike characters so they can be read off a projector.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+const MAX_ENTRIES = 1000;
+const MAX_BODY_BYTES = 256 * 1024;
+const ROOM_IDLE_MS = 6 * 60 * 60 * 1000;
+const HEARTBEAT_MS = 25000;
+
+/** @type {Map<string, { code: string, hostToken: string, sessionName: string, entries: object[], live: object, listeners: Set<http.ServerResponse>, touchedAt: number }>} */
+const rooms = new Map();
+
+function createCode() {
+  let code;
+  do {
+    code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) { reject(new Error('Body too large')); req.destroy(); return; }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try { resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {}); } catch (e) { reject(e); }
+    });
+    req.on('error', reject);
+  });
+}
+
+function broadcast(room, event) {
+  const frame = `data: ${JSON.stringify(event)}\n\n`;
+  room.listeners.forEach(res => res.write(frame));
+}
+
+/** Applies one host event to the room state, then fans it out to every student. */
+function applyEvent(room, event) {
+  switch (event.type) {
+    case 'live':
+      room.live = { isLive: !!event.isLive, currentInput: String(event.currentInput ?? ''), currentOutput: String(event.currentOutput ?? '') };
+      break;
+    case 'entries':
+      if (!Array.isArray(event.entries)) return false;
+      room.entries.push(...event.entries);
+      room.entries.splice(0, Math.max(0, room.entries.length - MAX_ENTRIES));
+      break;
+    case 'update': {
+      if (!Array.isArray(event.entries)) return false;
+      const edited = new Map(event.entries.map(e => [e.id, e]));
+      room.entries = room.entries.map(e => edited.get(e.id) ?? e);
+      break;
+    }
+    case 'reset':
+      if (!Array.isArray(event.entries)) return false;
+      room.sessionName = String(event.sessionName ?? '');
+      room.entries = event.entries.slice(-MAX_ENTRIES);
+      break;
+    default:
+      return false;
+  }
+  broadcast(room, event);
+  return true;
+}
+
+function snapshot(room) {
+  return { type: 'init', code: room.code, sessionName: room.sessionName, entries: room.entries, ...room.live };
+}
+
+function subscribe(req, res, room) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  // Late joiners get the whole room so far before any live updates.
+  res.write(`data: ${JSON.stringify(snapshot(room))}\n\n`);
+  room.listeners.add(res);
+  req.on('close', () => room.listeners.delete(res));
+}
+
+function closeRoom(room) {
+  broadcast(room, { type: 'closed' });
+  room.listeners.forEach(res => res.end());
+  rooms.delete(room.code);
+}
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  if (req.method === 'OPTIONS') { res.writeHead(204); res.end(); return; }
+
+  const url = new URL(req.url ?? '/', 'http://relay');
+  const [, resource, rawCode, action] = url.pathname.split('/');
+  if (resource !== 'rooms') { send(res, 404, { error: 'Not found' }); return; }
+
+  if (!rawCode) {
+    if (req.method !== 'POST') { send(res, 405, { error: 'Method not allowed' }); return; }
+    const room = { code: createCode(), hostToken: randomUUID(), sessionName: '', entries: [], live: { isLive: false, currentInput: '', currentOutput: '' }, listeners: new Set(), touchedAt: Date.now() };
+    rooms.set(room.code, room);
+    console.log(`Room ${room.code} opened`);
+    send(res, 201, { code: room.code, hostToken: room.hostToken });
+    return;
+  }
+
+  const room = rooms.get(rawCode.toUpperCase());
+  if (!room) { send(res, 404, { error: 'Room not found' }); return; }
+
+  if (req.method === 'GET' && action === 'stream') { subscribe(req, res, room); return; }
+
+  // Everything except reading requires the token handed to the room's creator.
+  if (req.headers.authorization !== `Bearer ${room.hostToken}`) { send(res, 403, { error: 'Read-only access' }); return; }
+  room.touchedAt = Date.now();
+
+  if (req.method === 'POST' && action === 'events') {
+    try {
+      const event = await readJson(req);
+      if (!applyEvent(room, event)) { send(res, 400, { error: 'Unknown event' }); return; }
+      send(res, 200, { listeners: room.listeners.size });
+    } catch (e) {
+      send(res, 400, { error: 'Malformed event' });
+    }
+    return;
+  }
+  if (req.method === 'DELETE' && !action) {
+    closeRoom(room);
+    console.log(`Room ${room.code} closed`);
+    send(res, 200, {});
+    return;
+  }
+  send(res, 404, { error: 'Not found' });
+});
+
+// Keeps idle proxies from dropping event streams and expires rooms whose host disappeared.
+setInterval(() => {
+  const now = Date.now();
+  rooms.forEach(room => {
+    if (now - room.touchedAt > ROOM_IDLE_MS) { closeRoom(room); return; }
+    room.listeners.forEach(res => res.write(': ping\n\n'));
+  });
+}, HEARTBEAT_MS);
+
+server.listen(PORT, '0.0.0.0', () => {
+  console.log(`EduTranslate relay listening on port ${PORT}`);
+});
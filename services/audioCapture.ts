@@ -0,0 +1,114 @@
+import { PcmFrameEncoder, PolyphaseResampler } from './audioService';
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// 100 ms of 16kHz audio per streamed frame.
+export const CAPTURE_FRAME_SAMPLES = 1600;
+const SCRIPT_PROCESSOR_BUFFER = 4096;
+const WORKLET_NAME = 'edutranslate-pcm-capture';
+
+export interface AudioCapture {
+  mode: 'worklet' | 'script-processor';
+  stop: () => void;
+}
+
+/** One streamed chunk: base64 PCM16 plus the level features used by voice activity detection. */
+export interface PcmFrame {
+  data: string;
+  durationMs: number;
+  rms: number;
+  zcr: number;
+}
+
+export type FrameHandler = (frame: PcmFrame) => void;
+
+const workletModules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+// The processor is assembled from the encoder classes' own source, so the worklet and the
+// fallback share one implementation without a separate bundled worklet file.
+function buildWorkletSource(): string {
+  return `
+const PolyphaseResampler = ${PolyphaseResampler.toString()};
+const PcmFrameEncoder = ${PcmFrameEncoder.toString()};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, frameSamples } = options.processorOptions;
+    this.durationMs = (frameSamples / targetRate) * 1000;
+    this.encoder = new PcmFrameEncoder(new PolyphaseResampler(sampleRate, targetRate), frameSamples);
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      const frames = this.encoder.push(channel);
+      for (let i = 0; i < frames.length; i++) this.port.postMessage({ ...frames[i], durationMs: this.durationMs });
+    }
+    return true;
+  }
+}
+
+registerProcessor('${WORKLET_NAME}', PcmCaptureProcessor);
+`;
+}
+
+function loadWorklet(ctx: AudioContext): Promise<void> {
+  let loading = workletModules.get(ctx);
+  if (!loading) {
+    const url = URL.createObjectURL(new Blob([buildWorkletSource()], { type: 'application/javascript' }));
+    loading = ctx.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    workletModules.set(ctx, loading);
+  }
+  return loading;
+}
+
+function startScriptProcessorCapture(ctx: AudioContext, source: AudioNode, onFrame: FrameHandler): AudioCapture {
+  const encoder = new PcmFrameEncoder(new PolyphaseResampler(ctx.sampleRate, CAPTURE_SAMPLE_RATE), CAPTURE_FRAME_SAMPLES);
+  const durationMs = (CAPTURE_FRAME_SAMPLES / CAPTURE_SAMPLE_RATE) * 1000;
+  const processor = ctx.createScriptProcessor(SCRIPT_PROCESSOR_BUFFER, 1, 1);
+  processor.onaudioprocess = (e) => {
+    encoder.push(e.inputBuffer.getChannelData(0)).forEach(frame => onFrame({ ...frame, durationMs }));
+  };
+  source.connect(processor);
+  processor.connect(ctx.destination);
+  return {
+    mode: 'script-processor',
+    stop: () => {
+      processor.onaudioprocess = null;
+      try { source.disconnect(processor); processor.disconnect(); } catch (e) {}
+    },
+  };
+}
+
+/**
+ * Streams `source` as 16kHz PCM16 frames. Capture, resampling and base64 encoding run
+ * in an AudioWorklet off the main thread; browsers without AudioWorklet fall back to a
+ * ScriptProcessorNode running the same encoder.
+ */
+export async function startAudioCapture(ctx: AudioContext, source: AudioNode, onFrame: FrameHandler): Promise<AudioCapture> {
+  if (!ctx.audioWorklet || typeof AudioWorkletNode === 'undefined') {
+    return startScriptProcessorCapture(ctx, source, onFrame);
+  }
+  try {
+    await loadWorklet(ctx);
+  } catch (err) {
+    console.warn('AudioWorklet unavailable, using ScriptProcessor capture:', err);
+    return startScriptProcessorCapture(ctx, source, onFrame);
+  }
+  const node = new AudioWorkletNode(ctx, WORKLET_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, frameSamples: CAPTURE_FRAME_SAMPLES },
+  });
+  node.port.onmessage = (e: MessageEvent<PcmFrame>) => onFrame(e.data);
+  source.connect(node);
+  node.connect(ctx.destination);
+  return {
+    mode: 'worklet',
+    stop: () => {
+      node.port.onmessage = null;
+      try { source.disconnect(node); node.disconnect(); } catch (e) {}
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import { InputHealth, InputSettings } from '../types';
+
+// The browser's own defaults; lapel and desk mics often sound cleaner with processing off.
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+  deviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  gain: 1,
+};
+
+export const MAX_INPUT_GAIN = 4;
+
+const CHECK_INTERVAL_MS = 250;
+// A sample this close to full scale is treated as clipped.
+const CLIP_LEVEL = 0.99;
+// Clipping is reported for a while after the last clipped sample so it can be read.
+const CLIP_HOLD_MS = 1500;
+const QUIET_DB = -50;
+// Pauses between sentences are normal; only a long stretch below QUIET_DB is reported.
+const QUIET_AFTER_MS = 8000;
+
+export async function listInputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput' && d.deviceId !== 'default');
+}
+
+/** Processing constraints, which can also be re-applied to a running track. */
+export const processingConstraints = (settings: InputSettings): MediaTrackConstraints => ({
+  echoCancellation: settings.echoCancellation,
+  noiseSuppression: settings.noiseSuppression,
+  autoGainControl: settings.autoGainControl,
+});
+
+export const inputConstraints = (settings: InputSettings): MediaTrackConstraints => ({
+  ...processingConstraints(settings),
+  // `ideal` falls back to the default mic when the chosen one has been unplugged.
+  ...(settings.deviceId && { deviceId: { ideal: settings.deviceId } }),
+});
+
+export interface InputMonitor {
+  stop: () => void;
+}
+
+export interface InputLevel {
+  /** RMS level in dBFS. */
+  rmsDb: number;
+  /** Largest absolute sample, 0 to 1. */
+  peak: number;
+}
+
+/** Level of the analyser's current time-domain window; `samples` must hold `fftSize` values. */
+export function measureLevel(analyser: AnalyserNode, samples: Float32Array): InputLevel {
+  analyser.getFloatTimeDomainData(samples);
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const v = Math.abs(samples[i]);
+    sum += v * v;
+    if (v > peak) peak = v;
+  }
+  return { rmsDb: 20 * Math.log10(Math.max(Math.sqrt(sum / samples.length), 1e-6)), peak };
+}
+
+/**
+ * Watches the captured signal through the analyser and the track state, reporting
+ * the most pressing problem each time it changes. Ended beats muted beats clipping
+ * beats a quiet signal.
+ */
+export function createInputMonitor(analyser: AnalyserNode, track: MediaStreamTrack, onChange: (health: InputHealth) => void): InputMonitor {
+  const samples = new Float32Array(analyser.fftSize);
+  let lastClipAt = -Infinity;
+  let lastAudibleAt = Date.now();
+  let health: InputHealth = 'ok';
+
+  const check = () => {
+    const { rmsDb, peak } = measureLevel(analyser, samples);
+    const now = Date.now();
+    if (peak >= CLIP_LEVEL) lastClipAt = now;
+    if (rmsDb > QUIET_DB) lastAudibleAt = now;
+
+    const next: InputHealth =
+      track.readyState === 'ended' ? 'ended'
+      : track.muted || !track.enabled ? 'muted'
+      : now - lastClipAt < CLIP_HOLD_MS ? 'clipping'
+      : now - lastAudibleAt > QUIET_AFTER_MS ? 'quiet'
+      : 'ok';
+    if (next !== health) { health = next; onChange(next); }
+  };
+
+  const timer = setInterval(check, CHECK_INTERVAL_MS);
+  track.addEventListener('ended', check);
+  track.addEventListener('mute', check);
+  track.addEventListener('unmute', check);
+
+  return {
+    stop: () => {
+      clearInterval(timer);
+      track.removeEventListener('ended', check);
+      track.removeEventListener('mute', check);
+      track.removeEventListener('unmute', check);
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { PlaybackSettings } from '../types';
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = { captionsOnly: false, volume: 1, rate: 1, sinkId: '' };
+
+export const MIN_PLAYBACK_RATE = 0.75;
+export const MAX_PLAYBACK_RATE = 1.5;
+
+// AudioContext.setSinkId is not in the DOM typings yet (Chromium 110+ only).
+type SinkAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+export const supportsOutputSelection = () =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+export async function listOutputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audiooutput' && d.deviceId !== 'default');
+}
+
+/**
+ * Output stage for the translated voice: every scheduled chunk connects to `input`,
+ * whose gain is the volume, on a context routed to the selected output device.
+ */
+export function createAudioOutput(ctx: AudioContext, initial: PlaybackSettings) {
+  const gain = ctx.createGain();
+  gain.connect(ctx.destination);
+  let sinkId = '';
+
+  const apply = async (settings: PlaybackSettings) => {
+    gain.gain.value = settings.volume;
+    const context = ctx as SinkAudioContext;
+    if (settings.sinkId !== sinkId && context.setSinkId) {
+      sinkId = settings.sinkId;
+      await context.setSinkId(settings.sinkId);
+    }
+  };
+  apply(initial).catch(e => console.error('Output device selection failed:', e));
+
+  return { input: gain as AudioNode, apply };
+}
+
+export type AudioOutput = ReturnType<typeof createAudioOutput>;
@@ -38,34 +38,144 @@ export async function decodeAudioData(
 }
 
 /**
- * Downsamples audio from a source rate to 16000Hz for Gemini compatibility.
+ * Streaming windowed-sinc resampler. The low-pass cutoff sits just under the lower
+ * Nyquist rate, so downsampling to 16kHz does not alias, and the kernel is precomputed
+ * for a fixed number of fractional phases (polyphase table).
+ *
+ * Must stay self-contained (no module-level references): its source is also
+ * injected into the capture AudioWorklet.
  */
-export function downsample(buffer: Float32Array, fromRate: number, toRate: number = 16000): Int16Array {
-  if (fromRate === toRate) {
-    const result = new Int16Array(buffer.length);
-    for (let i = 0; i < buffer.length; i++) {
-      result[i] = Math.max(-32768, Math.min(32767, buffer[i] * 32768));
+export class PolyphaseResampler {
+  private ratio: number;
+  private halfTaps: number;
+  private phases: number;
+  private table: Float32Array[];
+  private history: Float32Array;
+  private position: number;
+
+  constructor(fromRate: number, toRate: number) {
+    const zeroCrossings = 8;
+    this.ratio = fromRate / toRate;
+    this.phases = 128;
+    const cutoff = 0.5 * Math.min(1, toRate / fromRate) * 0.92;
+    this.halfTaps = Math.ceil(zeroCrossings / (2 * cutoff));
+    this.table = [];
+    for (let p = 0; p <= this.phases; p++) {
+      const frac = p / this.phases;
+      const row = new Float32Array(this.halfTaps * 2);
+      let sum = 0;
+      for (let k = 0; k < row.length; k++) {
+        const x = k - this.halfTaps + 1 - frac;
+        const arg = 2 * cutoff * x;
+        const sinc = arg === 0 ? 1 : Math.sin(Math.PI * arg) / (Math.PI * arg);
+        const w = (x + this.halfTaps) / (2 * this.halfTaps);
+        const blackman = 0.42 - 0.5 * Math.cos(2 * Math.PI * w) + 0.08 * Math.cos(4 * Math.PI * w);
+        row[k] = sinc * Math.max(0, blackman);
+        sum += row[k];
+      }
+      for (let k = 0; k < row.length; k++) row[k] /= sum || 1;
+      this.table.push(row);
     }
-    return result;
+    // Zero history so the first output sample lines up with the first input sample.
+    this.history = new Float32Array(this.halfTaps - 1);
+    this.position = this.halfTaps - 1;
   }
-  
-  const sampleRateRatio = fromRate / toRate;
-  const newLength = Math.round(buffer.length / sampleRateRatio);
-  const result = new Int16Array(newLength);
-  let offsetResult = 0;
-  let offsetBuffer = 0;
-  
-  while (offsetResult < result.length) {
-    const nextOffsetBuffer = Math.round((offsetResult + 1) * sampleRateRatio);
-    let accum = 0;
+
+  process(input: Float32Array): Float32Array {
+    if (this.ratio === 1) return input.slice();
+    const buffer = new Float32Array(this.history.length + input.length);
+    buffer.set(this.history);
+    buffer.set(input, this.history.length);
+
+    const taps = this.halfTaps * 2;
+    const maxOutput = Math.max(0, Math.ceil((buffer.length - this.position) / this.ratio));
+    const output = new Float32Array(maxOutput);
     let count = 0;
-    for (let i = offsetBuffer; i < nextOffsetBuffer && i < buffer.length; i++) {
-      accum += buffer[i];
-      count++;
+    let pos = this.position;
+    while (Math.floor(pos) + this.halfTaps < buffer.length) {
+      const i = Math.floor(pos);
+      const row = this.table[Math.round((pos - i) * this.phases)];
+      const start = i - this.halfTaps + 1;
+      let acc = 0;
+      for (let k = 0; k < taps; k++) acc += buffer[start + k] * row[k];
+      output[count++] = acc;
+      pos += this.ratio;
+    }
+
+    const keepFrom = Math.max(0, Math.floor(pos) - this.halfTaps + 1);
+    this.history = buffer.slice(keepFrom);
+    this.position = pos - keepFrom;
+    return output.subarray(0, count);
+  }
+}
+
+/**
+ * Turns a stream of float samples into fixed-size base64 PCM16 frames at the
+ * resampler's output rate, with the RMS level and zero-crossing rate of each frame
+ * for voice activity detection. Used both inside the capture AudioWorklet and by the
+ * ScriptProcessor fallback, so both paths emit identical frames.
+ *
+ * Must stay self-contained for the same reason as PolyphaseResampler; the
+ * resampler is passed in rather than constructed here.
+ */
+export class PcmFrameEncoder {
+  private resampler: PolyphaseResampler;
+  private frameSamples: number;
+  private pending: Int16Array;
+  private filled: number;
+  private sumSquares: number;
+  private crossings: number;
+  private last: number;
+
+  constructor(resampler: PolyphaseResampler, frameSamples: number) {
+    this.resampler = resampler;
+    this.frameSamples = frameSamples;
+    this.pending = new Int16Array(frameSamples);
+    this.filled = 0;
+    this.sumSquares = 0;
+    this.crossings = 0;
+    this.last = 0;
+  }
+
+  /** Returns the frames completed by this block of input. */
+  push(input: Float32Array): { data: string; rms: number; zcr: number }[] {
+    const resampled = this.resampler.process(input);
+    const frames: { data: string; rms: number; zcr: number }[] = [];
+    for (let i = 0; i < resampled.length; i++) {
+      const sample = resampled[i];
+      this.pending[this.filled++] = Math.max(-32768, Math.min(32767, sample * 32768));
+      this.sumSquares += sample * sample;
+      if ((sample >= 0) !== (this.last >= 0)) this.crossings++;
+      this.last = sample;
+      if (this.filled === this.frameSamples) {
+        frames.push({
+          data: this.toBase64(new Uint8Array(this.pending.buffer)),
+          rms: Math.sqrt(this.sumSquares / this.frameSamples),
+          zcr: this.crossings / this.frameSamples,
+        });
+        this.pending = new Int16Array(this.frameSamples);
+        this.filled = 0;
+        this.sumSquares = 0;
+        this.crossings = 0;
+      }
+    }
+    return frames;
+  }
+
+  // btoa is not available in AudioWorkletGlobalScope, so base64 is done by hand.
+  private toBase64(bytes: Uint8Array): string {
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+    let out = '';
+    let i = 0;
+    for (; i + 2 < bytes.length; i += 3) {
+      const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+      out += alphabet[n >> 18] + alphabet[(n >> 12) & 63] + alphabet[(n >> 6) & 63] + alphabet[n & 63];
+    }
+    if (i < bytes.length) {
+      const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8);
+      out += alphabet[n >> 18] + alphabet[(n >> 12) & 63];
+      out += i + 1 < bytes.length ? alphabet[(n >> 6) & 63] + '=' : '==';
     }
-    result[offsetResult] = Math.max(-32768, Math.min(32767, (accum / count) * 32768));
-    offsetResult++;
-    offsetBuffer = nextOffsetBuffer;
+    return out;
   }
-  return result;
 }
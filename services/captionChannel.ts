@@ -0,0 +1,39 @@
+import { CaptionSnapshot } from '../types';
+
+const CHANNEL_NAME = 'edutranslate-captions';
+
+type CaptionMessage = { type: 'snapshot'; snapshot: CaptionSnapshot } | { type: 'request' };
+
+export interface CaptionPublisher {
+  publish: (snapshot: CaptionSnapshot) => void;
+  close: () => void;
+}
+
+/**
+ * Broadcasts caption state from the main window. Views that open later ask for the
+ * current state, so they never need their own Live session.
+ */
+export function createCaptionPublisher(): CaptionPublisher {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  let last: CaptionSnapshot | null = null;
+  channel.onmessage = (e: MessageEvent<CaptionMessage>) => {
+    if (e.data.type === 'request' && last) channel.postMessage({ type: 'snapshot', snapshot: last });
+  };
+  return {
+    publish: (snapshot) => {
+      last = snapshot;
+      channel.postMessage({ type: 'snapshot', snapshot } satisfies CaptionMessage);
+    },
+    close: () => channel.close(),
+  };
+}
+
+/** Listens for caption snapshots; returns an unsubscribe function. */
+export function subscribeToCaptions(onSnapshot: (snapshot: CaptionSnapshot) => void): () => void {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (e: MessageEvent<CaptionMessage>) => {
+    if (e.data.type === 'snapshot') onSnapshot(e.data.snapshot);
+  };
+  channel.postMessage({ type: 'request' } satisfies CaptionMessage);
+  return () => channel.close();
+}
@@ -0,0 +1,216 @@
+import { RelayRoom, TranscriptEntry } from '../types';
+
+/** Path the dev and preview servers proxy to the relay (see vite.config.ts). */
+export const DEFAULT_RELAY_URL = '/relay';
+
+/** Events the relay forwards to students. `init` is the catch-up sent when a student joins. */
+export type RelayEvent =
+  | { type: 'init'; code: string; sessionName: string; entries: RelayCaption[]; isLive: boolean; currentInput: string; currentOutput: string }
+  | { type: 'live'; isLive: boolean; currentInput: string; currentOutput: string }
+  | { type: 'entries'; entries: RelayCaption[] }
+  | { type: 'update'; entries: RelayCaption[] }
+  | { type: 'reset'; sessionName: string; entries: RelayCaption[] }
+  | { type: 'closed' };
+
+/** What students see of an entry; revisions, quality checks and segments stay on the host. */
+export type RelayCaption = Pick<TranscriptEntry, 'id' | 'role' | 'text' | 'translation' | 'timestamp'>;
+
+type HostEvent = Extract<RelayEvent, { type: 'live' | 'entries' | 'update' | 'reset' }>;
+
+/** Address of this app as students open it; the host may be on localhost, so it can be set separately. */
+export const defaultStudentUrl = () => `${window.location.origin}${window.location.pathname}`;
+
+const normalizeUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+/**
+ * A relative relay address (the default `/relay`) is resolved against the page, so the
+ * host and every student reach the relay through the origin they opened the app from.
+ */
+export const resolveRelayUrl = (url: string) => normalizeUrl(new URL(normalizeUrl(url) || DEFAULT_RELAY_URL, window.location.href).href);
+
+export async function openRelayRoom(serverUrl: string): Promise<RelayRoom> {
+  const base = normalizeUrl(serverUrl);
+  const res = await fetch(`${resolveRelayUrl(base)}/rooms`, { method: 'POST' });
+  if (!res.ok) throw new Error(`Relay responded ${res.status}`);
+  const { code, hostToken } = await res.json();
+  return { serverUrl: base, code, hostToken };
+}
+
+export async function closeRelayRoom(room: RelayRoom): Promise<void> {
+  await fetch(`${resolveRelayUrl(room.serverUrl)}/rooms/${room.code}`, { method: 'DELETE', headers: { Authorization: `Bearer ${room.hostToken}` } });
+}
+
+/** Link students open on their phones; the QR code encodes the same URL. */
+export function studentJoinUrl(room: RelayRoom, studentUrl: string): string {
+  const params = new URLSearchParams({ view: 'student', room: room.code, relay: room.serverUrl });
+  return `${normalizeUrl(studentUrl) || defaultStudentUrl()}?${params}`;
+}
+
+export interface RelayPublisher {
+  publishLive: (isLive: boolean, currentInput: string, currentOutput: string) => void;
+  /** Sends appended and edited captions; a new session or removed entries resend the whole list in chunks. */
+  syncEntries: (sessionName: string, entries: TranscriptEntry[]) => void;
+  /** Stops retrying and drops anything not yet posted. */
+  close: () => void;
+}
+
+export interface RelayPublisherOptions {
+  onListeners: (count: number) => void;
+  onError: (error: Error) => void;
+}
+
+// Well under the relay's body limit (MAX_BODY_BYTES in server/relay.js), so a long lecture goes out in several posts.
+const MAX_CHUNK_BYTES = 64 * 1024;
+const RESYNC_DELAY_MS = 5000;
+
+const toCaption = ({ id, role, text, translation, timestamp }: TranscriptEntry): RelayCaption => ({ id, role, text, translation, timestamp });
+
+const sameCaption = (a: RelayCaption, b: RelayCaption) =>
+  a.id === b.id && a.role === b.role && a.text === b.text && a.translation === b.translation;
+
+function chunkCaptions(captions: RelayCaption[]): RelayCaption[][] {
+  const encoder = new TextEncoder();
+  const chunks: RelayCaption[][] = [[]];
+  let size = 0;
+  captions.forEach(caption => {
+    const bytes = encoder.encode(JSON.stringify(caption)).length + 1;
+    if (chunks[chunks.length - 1].length > 0 && size + bytes > MAX_CHUNK_BYTES) {
+      chunks.push([]);
+      size = 0;
+    }
+    chunks[chunks.length - 1].push(caption);
+    size += bytes;
+  });
+  return chunks;
+}
+
+/** The captions a room holds, by session. */
+interface RoomState {
+  name: string;
+  captions: RelayCaption[];
+}
+
+interface Outgoing {
+  event: HostEvent;
+  /** Room state once this post succeeds; only caption events carry one. */
+  state?: RoomState;
+}
+
+/**
+ * Posts host events to the relay one at a time so students see them in order.
+ * Live-caption updates that pile up behind a slow request are collapsed into the latest one.
+ * A failed caption post drops the diffs queued after it and resyncs from what the relay
+ * is known to hold, so late joiners do not miss captions.
+ */
+export function createRelayPublisher(room: RelayRoom, options: RelayPublisherOptions): RelayPublisher {
+  const pending: Outgoing[] = [];
+  let sending = false;
+  let closed = false;
+  // What the relay holds, advanced only after a successful post, and what it will hold once the queue drains.
+  let sent: RoomState | null = null;
+  let expected: RoomState | null = null;
+  let latest: RoomState | null = null;
+  let resyncTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const post = async (event: HostEvent) => {
+    const res = await fetch(`${resolveRelayUrl(room.serverUrl)}/rooms/${room.code}/events`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${room.hostToken}` },
+      body: JSON.stringify(event),
+    });
+    if (!res.ok) throw new Error(`Relay responded ${res.status}`);
+    const { listeners } = await res.json();
+    options.onListeners(listeners);
+  };
+
+  const resync = () => {
+    for (let i = pending.length - 1; i >= 0; i--) if (pending[i].state) pending.splice(i, 1);
+    expected = sent;
+    if (resyncTimer) clearTimeout(resyncTimer);
+    resyncTimer = setTimeout(() => {
+      resyncTimer = null;
+      if (latest && !closed) sync(latest);
+    }, RESYNC_DELAY_MS);
+  };
+
+  const drain = async () => {
+    if (sending) return;
+    sending = true;
+    while (pending.length && !closed) {
+      const item = pending.shift()!;
+      try {
+        await post(item.event);
+        if (item.state) sent = item.state;
+      } catch (e: any) {
+        options.onError(e);
+        if (item.state) resync();
+      }
+    }
+    sending = false;
+  };
+
+  const enqueue = (item: Outgoing) => {
+    if (closed) return;
+    const last = pending[pending.length - 1];
+    if (item.event.type === 'live' && last?.event.type === 'live') pending[pending.length - 1] = item;
+    else pending.push(item);
+    drain();
+  };
+
+  // Queues posts that take the room from `expected` to `target`.
+  const sync = (target: RoomState) => {
+    const { name, captions } = target;
+    const base = expected;
+    const appendOnly = base && base.name === name && captions.length >= base.captions.length
+      && base.captions.every((c, i) => c.id === captions[i].id);
+    let held = 0;
+    if (appendOnly) {
+      held = base.captions.length;
+      const changed = captions.slice(0, held).filter((c, i) => !sameCaption(c, base.captions[i]));
+      if (changed.length) enqueue({ event: { type: 'update', entries: changed }, state: { name, captions: captions.slice(0, held) } });
+    }
+    const chunks = chunkCaptions(captions.slice(held));
+    chunks.forEach((chunk, i) => {
+      if (appendOnly && chunk.length === 0) return;
+      held += chunk.length;
+      const event: HostEvent = !appendOnly && i === 0 ? { type: 'reset', sessionName: name, entries: chunk } : { type: 'entries', entries: chunk };
+      enqueue({ event, state: { name, captions: captions.slice(0, held) } });
+    });
+    expected = target;
+  };
+
+  return {
+    publishLive: (isLive, currentInput, currentOutput) => enqueue({ event: { type: 'live', isLive, currentInput, currentOutput } }),
+    syncEntries: (sessionName, entries) => {
+      latest = { name: sessionName, captions: entries.map(toCaption) };
+      sync(latest);
+    },
+    close: () => {
+      closed = true;
+      pending.length = 0;
+      if (resyncTimer) clearTimeout(resyncTimer);
+    },
+  };
+}
+
+export type RelayConnectionState = 'connecting' | 'open' | 'closed';
+
+/** Follows a room as a read-only student; returns an unsubscribe function. */
+export function subscribeToRoom(
+  serverUrl: string,
+  code: string,
+  onEvent: (event: RelayEvent) => void,
+  onConnectionChange: (state: RelayConnectionState) => void,
+): () => void {
+  const source = new EventSource(`${resolveRelayUrl(serverUrl)}/rooms/${encodeURIComponent(code.toUpperCase())}/stream`);
+  onConnectionChange('connecting');
+  source.onopen = () => onConnectionChange('open');
+  source.onmessage = (e: MessageEvent<string>) => {
+    const event = JSON.parse(e.data) as RelayEvent;
+    onEvent(event);
+    if (event.type === 'closed') { source.close(); onConnectionChange('closed'); }
+  };
+  // EventSource retries on its own; it only gives up (CLOSED) when the room is gone.
+  source.onerror = () => onConnectionChange(source.readyState === EventSource.CLOSED ? 'closed' : 'connecting');
+  return () => source.close();
+}
@@ -0,0 +1,12 @@
+/** Converts epoch ms to the local `YYYY-MM-DDTHH:mm` value of a datetime-local input. */
+export const toLocalInput = (ms: number) => {
+  const d = new Date(ms - new Date(ms).getTimezoneOffset() * 60000);
+  return d.toISOString().slice(0, 16);
+};
+
+/** Reads a datetime-local value back; `endOfMinute` makes an upper bound include that whole minute. */
+export const fromLocalInput = (value: string, endOfMinute = false) => {
+  if (!value) return undefined;
+  const ms = new Date(value).getTime();
+  return endOfMinute ? ms + 59999 : ms;
+};
@@ -0,0 +1,324 @@
+import { EntryRevision, LanguageColumns, LanguageId, ExportFormat, ExportOptions, LectureSession, SessionSummary, TranscriptEntry, TurnRecording, UiLocale } from '../types';
+import { buildSessionWav, listRecordings } from './recordingService';
+import { entryTargetLang } from './languageService';
+import { withoutRevisions } from './revisionService';
+import { romanize } from './romanization';
+import { formatDate, formatDateTime, formatTime, Translate } from './i18n';
+import { LANGUAGE_IDS } from '../constants';
+
+const EXPORT_APP_ID = 'edutranslate-live';
+const EXPORT_VERSION = 1;
+
+export type ExportErrorCode = 'noRecordings';
+
+/** An export that cannot be built from the chosen options; the dialog shows `export.error.<code>`. */
+export class ExportError extends Error {
+  constructor(readonly code: ExportErrorCode) {
+    super(code);
+  }
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  txt: 'text/plain',
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  md: 'text/markdown',
+  json: 'application/json',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  wav: 'audio/wav',
+};
+
+// Older entries only carry the turn-complete time, so their cue runs from the previous
+// turn (at most MAX_CUE_MS back) up to that time. Segmented turns get one cue per sentence.
+const MAX_CUE_MS = 10000;
+const MIN_CUE_MS = 1500;
+
+interface SubtitleCue {
+  start: number;
+  end: number;
+  entry: TranscriptEntry;
+  text: string;
+  translation: string;
+}
+
+export function filterEntries(entries: TranscriptEntry[], from?: number, to?: number): TranscriptEntry[] {
+  return entries.filter(e => (from === undefined || e.timestamp >= from) && (to === undefined || e.timestamp <= to));
+}
+
+const roleLabel = (entry: TranscriptEntry, t: Translate) => t(`role.${entry.role}`);
+const languageLabel = (entry: TranscriptEntry, t: Translate) => `${t(`language.${entry.sourceLang}`)} → ${t(`language.${entryTargetLang(entry)}`)}`;
+const revisionLabel = (rev: EntryRevision, t: Translate, locale?: UiLocale) =>
+  t(rev.change === 'retranslate' ? 'revision.retranslate' : 'revision.edit', { time: formatDateTime(locale, rev.replacedAt) });
+
+function cueLines(cue: SubtitleCue, columns: LanguageColumns): string[] {
+  const lines: string[] = [];
+  if (columns !== 'translation' && cue.text.trim()) lines.push(cue.text.trim());
+  if (columns !== 'source' && cue.translation.trim()) lines.push(cue.translation.trim());
+  return lines;
+}
+
+function buildCues(entries: TranscriptEntry[], origin: number): SubtitleCue[] {
+  let prevEnd = 0;
+  const cue = (entry: TranscriptEntry, startAt: number, endAt: number, text: string, translation: string): SubtitleCue => {
+    const start = Math.max(prevEnd, startAt - origin);
+    const end = Math.max(endAt - origin, start + MIN_CUE_MS);
+    prevEnd = end;
+    return { start, end, entry, text, translation };
+  };
+  return entries.flatMap(entry => {
+    const segments = entry.segments ?? [];
+    if (segments.length) {
+      return segments.map((s, i) => cue(entry, s.startedAt, segments[i + 1]?.startedAt ?? entry.timestamp, s.text, s.translation));
+    }
+    return [cue(entry, entry.startedAt ?? entry.timestamp - MAX_CUE_MS, entry.timestamp, entry.text, entry.translation)];
+  });
+}
+
+function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const pad = (n: number, width = 2) => String(Math.floor(n)).padStart(width, '0');
+  return `${pad(ms / 3600000)}:${pad((ms / 60000) % 60)}:${pad((ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function toSrt(entries: TranscriptEntry[], columns: LanguageColumns, origin: number): string {
+  return buildCues(entries, origin)
+    .filter(cue => cueLines(cue, columns).length > 0)
+    .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cueLines(cue, columns).join('\n')}\n`)
+    .join('\n');
+}
+
+export function toVtt(entries: TranscriptEntry[], columns: LanguageColumns, origin: number, t: Translate): string {
+  const cues = buildCues(entries, origin)
+    .filter(cue => cueLines(cue, columns).length > 0)
+    .map(cue => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n<v ${roleLabel(cue.entry, t)}>${cueLines(cue, columns).join('\n')}\n`);
+  return `WEBVTT\n\n${cues.join('\n')}`;
+}
+
+interface SummaryBlock {
+  title: string;
+  paragraphs: string[];
+  items: string[];
+}
+
+function summaryBlocks(summary: SessionSummary, t: Translate): SummaryBlock[] {
+  const blocks: SummaryBlock[] = summary.summaries.map(s => ({
+    title: t('summary.heading', { language: t(`language.${s.language}`) }),
+    paragraphs: s.text.split(/\n+/).filter(Boolean),
+    items: [],
+  }));
+  const lists: [string, string[]][] = [
+    [t('summary.keyTerms'), summary.keyTerms.map(k => `${k.term} (${k.translation}): ${k.definition}`)],
+    [t('summary.questions'), summary.questions.map(q => t('export.qa', { question: q.question, answer: q.answer || t('summary.noAnswer') }))],
+    [t('summary.assignments'), summary.assignments],
+  ];
+  lists.forEach(([title, items]) => { if (items.length) blocks.push({ title, paragraphs: [], items }); });
+  return blocks;
+}
+
+function summaryText(summary: SessionSummary, t: Translate): string {
+  return summaryBlocks(summary, t)
+    .map(b => [b.title.toUpperCase(), ...b.paragraphs, ...b.items.map(item => `- ${item}`)].join('\n'))
+    .join('\n\n');
+}
+
+export function toPlainText(entries: TranscriptEntry[], columns: LanguageColumns, t: Translate, summary?: SessionSummary, locale?: UiLocale): string {
+  const source = t('columns.source');
+  const translation = t('columns.translation');
+  const transcript = entries.map(e => {
+    const lines = [`[${formatTime(locale, e.timestamp, true)}] ${roleLabel(e, t)} (${languageLabel(e, t)})${e.typed ? ` [${t('bubble.typed')}]` : ''}`];
+    if (columns !== 'translation') lines.push(`${source}: ${e.text}`);
+    if (columns !== 'source') lines.push(`${translation}: ${e.translation}`);
+    e.revisions?.forEach(rev => {
+      lines.push(`  ~ ${revisionLabel(rev, t, locale)}`);
+      if (columns !== 'translation') lines.push(`    ${source}: ${rev.text}`);
+      if (columns !== 'source') lines.push(`    ${translation}: ${rev.translation}`);
+    });
+    return `${lines.join('\n')}\n`;
+  }).join('\n');
+  return summary ? `${summaryText(summary, t)}\n\n${t('export.transcript').toUpperCase()}\n\n${transcript}` : transcript;
+}
+
+function sessionHeading(session: LectureSession, t: Translate, locale?: UiLocale): string[] {
+  const meta = [
+    session.courseCode && t('export.course', { code: session.courseCode }),
+    t('export.date', { date: formatDate(locale, session.createdAt) }),
+    session.participants.length > 0 && t('export.participants', { names: session.participants.join(', ') }),
+  ].filter(Boolean) as string[];
+  return [session.name, ...meta];
+}
+
+// The revisions column only appears when an exported entry still carries revisions.
+const hasRevisions = (entries: TranscriptEntry[]) => entries.some(e => e.revisions?.length);
+
+const tableHeaders = (columns: LanguageColumns, revisions: boolean, t: Translate) => [
+  t('export.column.time'), t('export.column.role'), t('export.column.languages'),
+  ...(columns !== 'translation' ? [t('columns.source')] : []),
+  ...(columns !== 'source' ? [t('columns.translation')] : []),
+  ...(revisions ? [t('export.column.revisions')] : []),
+];
+
+const revisionCell = (entry: TranscriptEntry, columns: LanguageColumns, t: Translate, locale?: UiLocale) => (entry.revisions ?? [])
+  .map(rev => [
+    `${revisionLabel(rev, t, locale)}:`,
+    ...(columns !== 'translation' ? [rev.text] : []),
+    ...(columns !== 'source' ? [rev.translation] : []),
+  ].join(' '))
+  .join('\n');
+
+const tableCells = (entry: TranscriptEntry, columns: LanguageColumns, revisions: boolean, t: Translate, locale?: UiLocale) => [
+  formatTime(locale, entry.timestamp, true),
+  roleLabel(entry, t),
+  languageLabel(entry, t),
+  ...(columns !== 'translation' ? [entry.text] : []),
+  ...(columns !== 'source' ? [entry.translation] : []),
+  ...(revisions ? [revisionCell(entry, columns, t, locale)] : []),
+];
+
+const summaryMarkdown = (summary: SessionSummary, t: Translate) => summaryBlocks(summary, t).flatMap(b => [
+  `## ${b.title}`, '',
+  ...b.paragraphs.flatMap(p => [p, '']),
+  ...(b.items.length ? [...b.items.map(item => `- ${item}`), ''] : []),
+]);
+
+export function toMarkdown(session: LectureSession, entries: TranscriptEntry[], columns: LanguageColumns, t: Translate, summary?: SessionSummary, locale?: UiLocale): string {
+  const escape = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  const [title, ...meta] = sessionHeading(session, t, locale);
+  const revisions = hasRevisions(entries);
+  const headers = tableHeaders(columns, revisions, t);
+  const rows = entries.map(entry => `| ${tableCells(entry, columns, revisions, t, locale).map(escape).join(' | ')} |`);
+  return [
+    `# ${title}`, '',
+    ...meta.map(line => `- ${line}`), '',
+    ...(summary ? [...summaryMarkdown(summary, t), `## ${t('export.transcript')}`, ''] : []),
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows, '',
+  ].join('\n');
+}
+
+/** The whole session with every revision, ignoring the export options, so an import restores it as it was. */
+export function toJson(session: LectureSession): string {
+  return JSON.stringify({ app: EXPORT_APP_ID, version: EXPORT_VERSION, session }, null, 2);
+}
+
+async function toDocx(session: LectureSession, entries: TranscriptEntry[], columns: LanguageColumns, t: Translate, summary?: SessionSummary, locale?: UiLocale): Promise<Blob> {
+  const { Document, Packer, Paragraph, Table, TableCell, TableRow, TextRun, HeadingLevel, WidthType } = await import('docx');
+  const [title, ...meta] = sessionHeading(session, t, locale);
+  const revisions = hasRevisions(entries);
+  const row = (cells: string[], bold = false) => new TableRow({
+    tableHeader: bold,
+    children: cells.map(text => new TableCell({ children: text.split('\n').map(line => new Paragraph({ children: [new TextRun({ text: line, bold })] })) })),
+  });
+  const doc = new Document({
+    sections: [{
+      children: [
+        new Paragraph({ text: title, heading: HeadingLevel.HEADING_1 }),
+        ...meta.map(line => new Paragraph({ text: line })),
+        new Paragraph({ text: '' }),
+        ...(summary ? summaryBlocks(summary, t).flatMap(b => [
+          new Paragraph({ text: b.title, heading: HeadingLevel.HEADING_2 }),
+          ...b.paragraphs.map(text => new Paragraph({ text })),
+          ...b.items.map(text => new Paragraph({ text, bullet: { level: 0 } })),
+        ]) : []),
+        ...(summary ? [new Paragraph({ text: t('export.transcript'), heading: HeadingLevel.HEADING_2 })] : []),
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [row(tableHeaders(columns, revisions, t), true), ...entries.map(entry => row(tableCells(entry, columns, revisions, t, locale)))],
+        }),
+      ],
+    }],
+  });
+  return Packer.toBlob(doc);
+}
+
+// The reading goes on its own line under the text, so every text format carries it the same way.
+const withReading = (text: string, lang: LanguageId) => {
+  const reading = romanize(text, lang);
+  return reading ? `${text}\n${reading}` : text;
+};
+
+function withRomanization(entry: TranscriptEntry): TranscriptEntry {
+  const target = entryTargetLang(entry);
+  return {
+    ...entry,
+    text: withReading(entry.text, entry.sourceLang),
+    translation: withReading(entry.translation, target),
+    ...(entry.segments && {
+      segments: entry.segments.map(s => ({ ...s, text: withReading(s.text, entry.sourceLang), translation: withReading(s.translation, target) })),
+    }),
+  };
+}
+
+export function exportFilename(session: LectureSession, format: ExportFormat): string {
+  const date = new Date(session.createdAt);
+  const stamp = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  const base = [session.courseCode, session.name].filter(Boolean).join('_')
+    .replace(/[\\/:*?"<>|]/g, '')
+    .replace(/\s+/g, '_')
+    .slice(0, 80) || 'EduTranslate_Session';
+  return `${base}_${stamp}.${format}`;
+}
+
+/** Builds the file for the chosen format; `t` supplies the labels, headings and role names written into it. */
+export async function buildExport(session: LectureSession, options: ExportOptions, t: Translate): Promise<{ blob: Blob; filename: string }> {
+  const filename = exportFilename(session, options.format);
+  if (options.format === 'json') {
+    return { blob: new Blob([toJson(session)], { type: `${MIME_TYPES.json};charset=utf-8` }), filename };
+  }
+  const inRange = filterEntries(session.entries, options.from, options.to);
+  const kept = options.includeRevisions ? inRange : inRange.map(withoutRevisions);
+  const entries = options.includeRomanization ? kept.map(withRomanization) : kept;
+  const origin = options.from ?? session.entries[0]?.timestamp ?? session.createdAt;
+  const summary = options.includeSummary ? session.summary : undefined;
+  if (options.format === 'docx') {
+    return { blob: await toDocx(session, entries, options.columns, t, summary, options.locale), filename };
+  }
+  if (options.format === 'wav') {
+    const byEntry = new Map((await listRecordings(session.id)).map(r => [r.entryId, r]));
+    const recordings = entries.map(e => byEntry.get(e.id)).filter((r): r is TurnRecording => !!r);
+    if (recordings.length === 0) throw new ExportError('noRecordings');
+    return { blob: buildSessionWav(recordings), filename };
+  }
+  const content = {
+    txt: () => toPlainText(entries, options.columns, t, summary, options.locale),
+    srt: () => toSrt(entries, options.columns, origin),
+    vtt: () => toVtt(entries, options.columns, origin, t),
+    md: () => toMarkdown(session, entries, options.columns, t, summary, options.locale),
+  }[options.format as Exclude<ExportFormat, 'docx' | 'wav' | 'json'>]();
+  return { blob: new Blob([content], { type: `${MIME_TYPES[options.format]};charset=utf-8` }), filename };
+}
+
+const isLanguage = (value: unknown) => LANGUAGE_IDS.includes(value as LanguageId);
+
+// Checked before the entry reaches IndexedDB, since the transcript, exports and the
+// language pickers all index by role and language id.
+const isValidEntry = (e: TranscriptEntry) =>
+  typeof e.id === 'string' && typeof e.timestamp === 'number' && typeof e.text === 'string' && typeof e.translation === 'string'
+  && (e.role === 'Professor' || e.role === 'Student')
+  && isLanguage(e.sourceLang) && (e.targetLang === undefined || isLanguage(e.targetLang))
+  && (e.startedAt === undefined || typeof e.startedAt === 'number');
+
+/**
+ * Reads a JSON export back into a session, named `defaultName` if it has no name. Throws
+ * when the file was not written by `toJson` or its entries are malformed.
+ */
+export function parseSessionImport(text: string, defaultName: string): LectureSession {
+  const data = JSON.parse(text);
+  const session = data?.session;
+  if (data?.app !== EXPORT_APP_ID || !session || typeof session.id !== 'string' || !Array.isArray(session.entries)
+    || typeof session.createdAt !== 'number' || typeof session.updatedAt !== 'number') {
+    throw new Error('Not an EduTranslate session export');
+  }
+  if (!session.entries.every(isValidEntry)) throw new Error('Session export contains malformed entries');
+  return {
+    ...session,
+    name: session.name || defaultName,
+    courseCode: session.courseCode || '',
+    participants: Array.isArray(session.participants) ? session.participants : [],
+  };
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a'); a.href = url; a.download = filename; a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { GlossaryTerm } from '../types';
+import { findGlossaryIssues } from './glossaryService';
+
+const TERMS: GlossaryTerm[] = [
+  { id: 'mean', thai: 'ค่าเฉลี่ย', chinese: '平均值', english: 'mean' },
+  { id: 'regression', thai: 'การถดถอย', chinese: '回归分析', english: 'linear regression' },
+];
+
+describe('findGlossaryIssues', () => {
+  it('matches English terms as whole words only', () => {
+    expect(findGlossaryIssues('What is the meaning of this?', '这是什么意思？', TERMS, 'Chinese')).toEqual([]);
+    expect(findGlossaryIssues('Take the mean, then compare.', '取平均数，然后比较。', TERMS, 'Chinese'))
+      .toEqual([{ termId: 'mean', found: 'mean', expected: '平均值' }]);
+  });
+
+  it('matches multi-word English terms across line breaks and case', () => {
+    expect(findGlossaryIssues('We start with Linear\nRegression today.', '今天从线性回归开始。', TERMS, 'Chinese'))
+      .toEqual([{ termId: 'regression', found: 'linear regression', expected: '回归分析' }]);
+  });
+
+  it('matches Thai and Chinese terms inside unspaced text', () => {
+    expect(findGlossaryIssues('วันนี้เรียนเรื่องการถดถอยเชิงเส้น', '今天学习线性回归', TERMS, 'Chinese'))
+      .toEqual([{ termId: 'regression', found: 'การถดถอย', expected: '回归分析' }]);
+    expect(findGlossaryIssues('今天学习回归 分析', 'วันนี้เรียนการถดถอย', TERMS, 'Thai')).toEqual([]);
+  });
+
+  it('requires the English rendering as a whole word in the translation', () => {
+    expect(findGlossaryIssues('หาค่าเฉลี่ยก่อน', 'Find the meaning first.', TERMS, 'English'))
+      .toEqual([{ termId: 'mean', found: 'ค่าเฉลี่ย', expected: 'mean' }]);
+    expect(findGlossaryIssues('หาค่าเฉลี่ยก่อน', 'Find the mean first.', TERMS, 'English')).toEqual([]);
+  });
+});
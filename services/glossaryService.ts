@@ -0,0 +1,115 @@
+import { CourseGlossary, GlossaryIssue, GlossaryTerm, LanguageId } from '../types';
+import { GLOSSARY_STORE, withStore } from './db';
+
+const CSV_HEADER = ['thai', 'chinese', 'english', 'note'];
+
+type TermField = 'thai' | 'chinese' | 'english';
+const TERM_FIELDS: TermField[] = ['thai', 'chinese', 'english'];
+// Glossary columns by language; other languages have no approved renderings to check.
+const TERM_FIELD_BY_LANGUAGE: Partial<Record<LanguageId, TermField>> = { Thai: 'thai', Chinese: 'chinese', English: 'english' };
+
+export const createTermId = () => Math.random().toString(36).substr(2, 9);
+
+export async function getGlossary(courseCode: string): Promise<CourseGlossary> {
+  const saved = await withStore<CourseGlossary | undefined>(GLOSSARY_STORE, 'readonly', store => store.get(courseCode));
+  return saved ?? { courseCode, terms: [], updatedAt: Date.now() };
+}
+
+export async function saveGlossary(glossary: CourseGlossary): Promise<void> {
+  await withStore(GLOSSARY_STORE, 'readwrite', store => store.put(glossary));
+}
+
+/** Renders the approved terms as a block appended to the system instruction. */
+export function formatGlossaryPrompt(terms: GlossaryTerm[]): string {
+  const lines = terms
+    .filter(t => [t.thai, t.chinese, t.english].filter(v => v.trim()).length >= 2)
+    .map(t => `- Thai: ${t.thai || '-'} | Chinese: ${t.chinese || '-'} | English: ${t.english || '-'}${t.note ? ` (${t.note})` : ''}`);
+  if (lines.length === 0) return '';
+  return `\nCOURSE GLOSSARY: Always use exactly these approved renderings when a term is spoken in any of its forms.\n${lines.join('\n')}`;
+}
+
+// Scripts written without spaces between words, where a term can only be found as a substring.
+const UNSPACED_SCRIPT = /[\u0E00-\u0E7F\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whether the text contains the term. Thai, Chinese and Japanese terms match anywhere,
+ * ignoring spaces; other terms only as whole words, so "mean" does not match "meaning".
+ */
+function containsTerm(text: string, term: string): boolean {
+  if (UNSPACED_SCRIPT.test(term)) return text.replace(/\s+/g, '').toLowerCase().includes(term.replace(/\s+/g, '').toLowerCase());
+  const words = term.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${words}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+/**
+ * Checks a finished turn against the glossary: when a term appears in the source
+ * text, its approved rendering in the translation language must appear too.
+ */
+export function findGlossaryIssues(text: string, translation: string, terms: GlossaryTerm[], targetLang: LanguageId): GlossaryIssue[] {
+  const targetField = TERM_FIELD_BY_LANGUAGE[targetLang];
+  if (!targetField || !translation.trim()) return [];
+  const issues: GlossaryIssue[] = [];
+  for (const term of terms) {
+    const expected = term[targetField];
+    const sourceForms = TERM_FIELDS.filter(f => f !== targetField).map(f => term[f]);
+    const found = sourceForms.find(form => form.trim() && containsTerm(text, form));
+    if (found && expected.trim() && !containsTerm(translation, expected)) {
+      issues.push({ termId: term.id, found, expected });
+    }
+  }
+  return issues;
+}
+
+const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function glossaryToCsv(terms: GlossaryTerm[]): string {
+  const rows = terms.map(t => [t.thai, t.chinese, t.english, t.note || ''].map(escapeCsv).join(','));
+  // BOM so spreadsheet apps open Thai and Chinese as UTF-8.
+  return `\uFEFF${[CSV_HEADER.join(','), ...rows].join('\r\n')}\r\n`;
+}
+
+function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = csv.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else field += ch;
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+/**
+ * Parses thai,chinese,english[,note] rows. A header row is detected by name and
+ * may list the columns in any order.
+ */
+export function parseGlossaryCsv(csv: string): GlossaryTerm[] {
+  const rows = parseCsvRows(csv);
+  if (rows.length === 0) return [];
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const hasHeader = CSV_HEADER.slice(0, 3).every(col => header.includes(col));
+  const index = (col: string, fallback: number) => (hasHeader ? header.indexOf(col) : fallback);
+  const cols = { thai: index('thai', 0), chinese: index('chinese', 1), english: index('english', 2), note: index('note', 3) };
+  const cell = (row: string[], i: number) => (i >= 0 ? (row[i] || '').trim() : '');
+  return (hasHeader ? rows.slice(1) : rows).map(row => ({
+    id: createTermId(),
+    thai: cell(row, cols.thai),
+    chinese: cell(row, cols.chinese),
+    english: cell(row, cols.english),
+    note: cell(row, cols.note) || undefined,
+  }));
+}
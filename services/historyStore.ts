@@ -0,0 +1,54 @@
+import { LectureSession, SessionDetails, TranscriptEntry } from '../types';
+import { SESSION_STORE, withStore } from './db';
+
+const LEGACY_HISTORY_KEY = 'edutranslate_history';
+
+export const createSessionId = () => Math.random().toString(36).substr(2, 9);
+
+/** A new session; `defaultName` is used when the details leave the name blank. */
+export function createSession(defaultName: string, details: Partial<SessionDetails> = {}, entries: TranscriptEntry[] = []): LectureSession {
+  const now = Date.now();
+  return {
+    id: createSessionId(),
+    name: details.name?.trim() || defaultName,
+    courseCode: details.courseCode?.trim() || '',
+    participants: details.participants || [],
+    createdAt: entries[0]?.timestamp ?? now,
+    updatedAt: now,
+    entries,
+  };
+}
+
+/** Lists all archived sessions, most recently updated first. */
+export async function listSessions(): Promise<LectureSession[]> {
+  const sessions = await withStore<LectureSession[]>(SESSION_STORE, 'readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveSession(session: LectureSession): Promise<void> {
+  await withStore(SESSION_STORE, 'readwrite', store => store.put(session));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore(SESSION_STORE, 'readwrite', store => store.delete(id));
+}
+
+/**
+ * One-time move of the flat localStorage history into the archive as its own session,
+ * named `name`. The legacy key is removed only after the session has been written.
+ */
+export async function migrateLegacyHistory(name: string): Promise<LectureSession | null> {
+  const raw = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (raw === null) return null;
+  let entries: TranscriptEntry[] = [];
+  try { entries = JSON.parse(raw); } catch (e) { entries = []; }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    return null;
+  }
+  // Fixed id keeps the migration idempotent if it runs twice before the key is removed.
+  const session = { ...createSession(name, {}, entries), id: 'legacy-history' };
+  await saveSession(session);
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  return session;
+}
@@ -0,0 +1,52 @@
+import { UiLocale } from '../types';
+import en, { MessageKey, Messages } from '../locales/en';
+import th from '../locales/th';
+import zhCN from '../locales/zh-CN';
+
+export type { MessageKey };
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const UI_LOCALE_KEY = 'edutranslate_ui_language';
+
+export const UI_LOCALES: { id: UiLocale; label: string }[] = [
+  { id: 'th', label: 'ไทย' },
+  { id: 'zh-CN', label: '简体中文' },
+  { id: 'en', label: 'English' },
+];
+
+const CATALOGS: Record<UiLocale, Messages> = { th, 'zh-CN': zhCN, en };
+
+// Thai dates use the Buddhist calendar year, as Thai readers expect.
+const INTL_LOCALES: Record<UiLocale, string> = { th: 'th-TH', 'zh-CN': 'zh-CN', en: 'en-US' };
+
+export const isUiLocale = (value: string | null): value is UiLocale => !!value && value in CATALOGS;
+
+/** Looks up a message and fills `{name}` placeholders; unknown placeholders are left as is. */
+export function translate(locale: UiLocale, key: MessageKey, params?: MessageParams): string {
+  const template = CATALOGS[locale][key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match);
+}
+
+/** The saved interface language, or the closest match to the browser's language. */
+export function detectUiLocale(): UiLocale {
+  const saved = localStorage.getItem(UI_LOCALE_KEY);
+  if (isUiLocale(saved)) return saved;
+  const browser = navigator.language.toLowerCase();
+  if (browser.startsWith('th')) return 'th';
+  if (browser.startsWith('zh')) return 'zh-CN';
+  return 'en';
+}
+
+export const intlLocale = (locale?: UiLocale) => locale ? INTL_LOCALES[locale] : undefined;
+
+export function formatTime(locale: UiLocale | undefined, at: number, withSeconds = false): string {
+  return new Date(at).toLocaleTimeString(intlLocale(locale), { hour: '2-digit', minute: '2-digit', ...(withSeconds && { second: '2-digit' }) });
+}
+
+export const formatDate = (locale: UiLocale | undefined, at: number) => new Date(at).toLocaleDateString(intlLocale(locale));
+
+export const formatDateTime = (locale: UiLocale | undefined, at: number) => new Date(at).toLocaleString(intlLocale(locale));
+
+export const formatNumber = (locale: UiLocale | undefined, value: number) => value.toLocaleString(intlLocale(locale));
@@ -0,0 +1,51 @@
+import { LanguageId, LanguagePairs, SpeakerRole, TranscriptEntry } from '../types';
+import { LANGUAGES } from '../constants';
+
+const LATIN_LETTERS = /[A-Za-z]/;
+
+/** Every language used by the configured pairs, in a stable order. */
+export const pairLanguages = (pairs: LanguagePairs): LanguageId[] =>
+  [...new Set([pairs.Professor.source, pairs.Student.source, pairs.Professor.target, pairs.Student.target])];
+
+/**
+ * Detects which of the candidate languages a text is written in by counting the
+ * characters of each language's script. A Latin-script candidate (script null) only
+ * matches when no other candidate does. Returns null for text in none of them.
+ * Japanese counts kana and kanji, so it only ties with Chinese on Han-only text, and
+ * that tie goes to Chinese whatever order the candidates are in.
+ */
+export function detectScriptLanguage(text: string, candidates: LanguageId[]): LanguageId | null {
+  let best: LanguageId | null = null;
+  let bestCount = 0;
+  for (const id of candidates) {
+    const script = LANGUAGES[id].script;
+    const count = script ? text.match(script)?.length ?? 0 : 0;
+    if (count > bestCount || (count > 0 && count === bestCount && id === 'Chinese')) { best = id; bestCount = count; }
+  }
+  if (best) return best;
+  const latin = candidates.find(id => LANGUAGES[id].script === null);
+  return latin && LATIN_LETTERS.test(text) ? latin : null;
+}
+
+export const roleForLanguage = (lang: LanguageId, pairs: LanguagePairs): SpeakerRole | null =>
+  pairs.Professor.source === lang ? 'Professor' : pairs.Student.source === lang ? 'Student' : null;
+
+const roleForTarget = (lang: LanguageId, pairs: LanguagePairs): SpeakerRole | null =>
+  pairs.Professor.target === lang ? 'Professor' : pairs.Student.target === lang ? 'Student' : null;
+
+/**
+ * Picks the speaker of a finished turn in Auto mode. The source transcription wins;
+ * if it is in neither role's source language the translation is matched against the
+ * target languages, and otherwise the previous speaker is kept.
+ */
+export function resolveSpeakerRole(input: string, output: string, fallback: SpeakerRole, pairs: LanguagePairs): SpeakerRole {
+  const spoken = detectScriptLanguage(input, [pairs.Professor.source, pairs.Student.source]);
+  const bySource = spoken && roleForLanguage(spoken, pairs);
+  if (bySource) return bySource;
+  const translated = detectScriptLanguage(output, [pairs.Professor.target, pairs.Student.target]);
+  return (translated && roleForTarget(translated, pairs)) || fallback;
+}
+
+/** Target language of an entry; entries from before configurable pairs were always Thai ↔ Chinese. */
+export const entryTargetLang = (entry: TranscriptEntry): LanguageId =>
+  entry.targetLang ?? (entry.sourceLang === 'Thai' ? 'Chinese' : 'Thai');
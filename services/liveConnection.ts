@@ -0,0 +1,174 @@
+import { LiveCallbacks, LiveServerMessage, Session } from '@google/genai';
+import { PCM_INPUT_MIME_TYPE } from '../constants';
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+// After this many failed attempts the resumption handle is dropped and a fresh session is opened.
+const RESUME_HANDLE_ATTEMPTS = 2;
+const MAX_BUFFERED_AUDIO_MS = 30000;
+
+export type LiveSessionHandle = Pick<Session, 'sendRealtimeInput' | 'sendClientContent' | 'close'>;
+
+/** Opens one Live session; `resumeHandle` continues the server-side context of a dropped one. */
+export type LiveConnector = (resumeHandle: string | undefined, callbacks: LiveCallbacks) => Promise<LiveSessionHandle>;
+
+export type LiveConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface ReconnectInfo {
+  attempt: number;
+  maxAttempts: number;
+  downSince: number;
+}
+
+export interface LiveConnectionOptions {
+  connect: LiveConnector;
+  onMessage: (msg: LiveServerMessage) => void;
+  onStateChange: (state: LiveConnectionState, reconnect: ReconnectInfo | null) => void;
+  /** Called once when the connection is abandoned; `wasConnected` is false if it never opened. */
+  onGiveUp: (wasConnected: boolean) => void;
+  /** Audio actually handed to `sendRealtimeInput`, including audio replayed after a reconnect. */
+  onAudioSent?: (durationMs: number) => void;
+}
+
+type RealtimeItem = { kind: 'audio'; data: string; durationMs: number } | { kind: 'activityStart' | 'activityEnd'; durationMs: 0 };
+
+export interface LiveConnection {
+  start: () => Promise<void>;
+  sendAudio: (data: string, durationMs: number) => void;
+  /** Explicit activity markers, used when automatic activity detection is disabled. */
+  sendActivity: (signal: 'start' | 'end') => void;
+  withSession: (run: (session: LiveSessionHandle) => void) => void;
+  close: () => void;
+}
+
+/**
+ * Wraps the Live session with automatic reconnects. Dropped connections are retried
+ * with exponential backoff using the latest session resumption handle, and microphone
+ * audio captured during the outage is buffered and replayed once the session reopens.
+ */
+export function createLiveConnection(options: LiveConnectionOptions): LiveConnection {
+  let state: LiveConnectionState = 'connecting';
+  let session: LiveSessionHandle | null = null;
+  let generation = 0;
+  let attempt = 0;
+  let downSince = 0;
+  let wasConnected = false;
+  let resumeHandle: string | undefined;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let buffered: RealtimeItem[] = [];
+  let bufferedMs = 0;
+
+  const setState = (next: LiveConnectionState) => {
+    state = next;
+    options.onStateChange(next, next === 'reconnecting' ? { attempt, maxAttempts: MAX_RECONNECT_ATTEMPTS, downSince } : null);
+  };
+
+  const send = (target: LiveSessionHandle, item: RealtimeItem) => {
+    if (item.kind === 'audio') {
+      target.sendRealtimeInput({ media: { data: item.data, mimeType: PCM_INPUT_MIME_TYPE } });
+      options.onAudioSent?.(item.durationMs);
+    } else {
+      target.sendRealtimeInput(item.kind === 'activityStart' ? { activityStart: {} } : { activityEnd: {} });
+    }
+  };
+
+  const flush = () => {
+    if (!session) return;
+    buffered.forEach(item => send(session!, item));
+    buffered = [];
+    bufferedMs = 0;
+  };
+
+  const enqueue = (item: RealtimeItem) => {
+    if (state === 'open' && session) {
+      send(session, item);
+    } else if (state === 'reconnecting') {
+      buffered.push(item);
+      bufferedMs += item.durationMs;
+      // Only audio is trimmed; activity markers stay so every start still has its end after the reconnect.
+      while (bufferedMs > MAX_BUFFERED_AUDIO_MS) {
+        const oldest = buffered.findIndex(b => b.kind === 'audio');
+        if (oldest === -1 || oldest === buffered.length - 1) break;
+        bufferedMs -= buffered.splice(oldest, 1)[0].durationMs;
+      }
+    }
+  };
+
+  const giveUp = () => {
+    const connected = wasConnected;
+    close();
+    options.onGiveUp(connected);
+  };
+
+  const scheduleRetry = () => {
+    if (attempt >= MAX_RECONNECT_ATTEMPTS) { giveUp(); return; }
+    attempt++;
+    if (attempt > RESUME_HANDLE_ATTEMPTS) resumeHandle = undefined;
+    setState('reconnecting');
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1));
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      open().catch(err => { console.error('Reconnect failed:', err); handleDrop(); });
+    }, delay);
+  };
+
+  const handleDrop = () => {
+    if (state === 'closed') return;
+    if (!wasConnected) { giveUp(); return; }
+    // Invalidate the dropped socket so its remaining error/close callbacks are ignored.
+    generation++;
+    session = null;
+    if (attempt === 0) downSince = Date.now();
+    scheduleRetry();
+  };
+
+  const open = async () => {
+    const id = ++generation;
+    const next = await options.connect(resumeHandle, {
+      onmessage: (msg: LiveServerMessage) => {
+        if (id !== generation) return;
+        const update = msg.sessionResumptionUpdate;
+        if (update?.resumable && update.newHandle) resumeHandle = update.newHandle;
+        if (msg.setupComplete) attempt = 0;
+        options.onMessage(msg);
+      },
+      onerror: (e: ErrorEvent) => {
+        if (id !== generation) return;
+        console.error('Live Error:', e);
+        handleDrop();
+      },
+      onclose: () => {
+        if (id === generation) handleDrop();
+      },
+    });
+    if (id !== generation || state === 'closed') {
+      try { next.close(); } catch (e) {}
+      return;
+    }
+    session = next;
+    wasConnected = true;
+    setState('open');
+    flush();
+  };
+
+  const close = () => {
+    if (state === 'closed') return;
+    generation++;
+    state = 'closed';
+    if (retryTimer) { clearTimeout(retryTimer); retryTimer = null; }
+    if (session) { try { session.close(); } catch (e) {} session = null; }
+    buffered = [];
+    bufferedMs = 0;
+  };
+
+  return {
+    start: open,
+    sendAudio: (data, durationMs) => enqueue({ kind: 'audio', data, durationMs }),
+    sendActivity: (signal) => enqueue({ kind: signal === 'start' ? 'activityStart' : 'activityEnd', durationMs: 0 }),
+    withSession: (run) => {
+      if (state === 'open' && session) run(session);
+    },
+    close,
+  };
+}
@@ -0,0 +1,120 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GlossaryTerm, SpeakerRole, TranscriptEntry } from '../types';
+import { createLiveConnection } from './liveConnection';
+import { captureDuration, createReplayConnector, LiveCapture, parseLiveCapture, serializeLiveCapture } from './liveReplay';
+import { addTranscription, buildTurnEntry, emptyTurn } from './liveTranscript';
+
+const fixture = readFileSync(new URL('./fixtures/lecture-capture.json', import.meta.url), 'utf8');
+const START = 1760000000000;
+const GLOSSARY: GlossaryTerm[] = [{ id: 'regression', thai: 'การถดถอย', chinese: '回归分析', english: 'regression' }];
+
+// The transcript handling of a live session: transcription builds the turn, turnComplete turns it into an entry.
+async function replay(capture: LiveCapture, speed: number): Promise<TranscriptEntry[]> {
+  const entries: TranscriptEntry[] = [];
+  let turn = emptyTurn();
+  let lastSpeaker: SpeakerRole = 'Professor';
+  let finished = false;
+  const connection = createLiveConnection({
+    connect: createReplayConnector(capture, speed, () => { finished = true; }),
+    onMessage: msg => {
+      turn = addTranscription(turn, msg, Date.now());
+      if (!msg.serverContent?.turnComplete) return;
+      if (turn.input.trim() || turn.output.trim()) {
+        const entry = buildTurnEntry(turn, {
+          id: `turn-${entries.length + 1}`,
+          timestamp: Date.now(),
+          roleMode: capture.roleMode,
+          lastSpeaker,
+          pairs: capture.languagePairs,
+          glossary: GLOSSARY,
+        });
+        entries.push(entry);
+        lastSpeaker = entry.role;
+      }
+      turn = emptyTurn();
+    },
+    onStateChange: () => {},
+    onGiveUp: () => { throw new Error('Replay connection gave up'); },
+  });
+  await connection.start();
+  await vi.runAllTimersAsync();
+  connection.close();
+  expect(finished).toBe(true);
+  return entries;
+}
+
+describe('Live capture replay', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+  });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('rebuilds the transcript of the captured lecture', async () => {
+    const entries = await replay(parseLiveCapture(fixture), 1);
+    expect(entries).toEqual([
+      {
+        id: 'turn-1',
+        timestamp: START + 2100,
+        text: 'วันนี้เราจะเรียนเรื่องการถดถอยเชิงเส้น ซึ่งเป็นพื้นฐานของเศรษฐมิติ กรุณาอ่านบทที่สามก่อนสัปดาห์หน้า',
+        translation: '今天我们学习线性回归，这是计量经济学的基础。请在下周之前阅读第三章。',
+        sourceLang: 'Thai',
+        targetLang: 'Chinese',
+        role: 'Professor',
+        glossaryIssues: [{ termId: 'regression', found: 'การถดถอย', expected: '回归分析' }],
+        startedAt: START + 200,
+        // The pause before the third chunk ends the first sentence.
+        segments: [
+          { text: 'วันนี้เราจะเรียนเรื่องการถดถอยเชิงเส้น ซึ่งเป็นพื้นฐานของเศรษฐมิติ', translation: '今天我们学习线性回归，这是计量经济学的基础。', startedAt: START + 200 },
+          { text: 'กรุณาอ่านบทที่สามก่อนสัปดาห์หน้า', translation: '请在下周之前阅读第三章。', startedAt: START + 1600 },
+        ],
+      },
+      {
+        id: 'turn-2',
+        timestamp: START + 3600,
+        text: '老师，残差是什么意思？',
+        translation: 'อาจารย์ครับ ค่าคลาดเคลื่อนหมายถึงอะไร',
+        sourceLang: 'Chinese',
+        targetLang: 'Thai',
+        role: 'Student',
+        startedAt: START + 3000,
+      },
+      {
+        id: 'turn-3',
+        timestamp: START + 4900,
+        text: 'ค่าคลาดเคลื่อนคือส่วนต่าง',
+        translation: '残差是',
+        sourceLang: 'Thai',
+        targetLang: 'Chinese',
+        role: 'Professor',
+        startedAt: START + 4500,
+      },
+    ]);
+  });
+
+  it('builds the same turns at a faster replay speed', async () => {
+    const capture = parseLiveCapture(fixture);
+    const atSpeed = await replay(capture, 4);
+    expect(atSpeed.map(e => [e.role, e.text, e.translation])).toEqual([
+      ['Professor', expect.stringContaining('การถดถอยเชิงเส้น'), expect.stringContaining('线性回归')],
+      ['Student', '老师，残差是什么意思？', 'อาจารย์ครับ ค่าคลาดเคลื่อนหมายถึงอะไร'],
+      ['Professor', 'ค่าคลาดเคลื่อนคือส่วนต่าง', '残差是'],
+    ]);
+    expect(atSpeed[2].timestamp).toBe(START + captureDuration(capture) / 4 - 100);
+  });
+});
+
+describe('parseLiveCapture', () => {
+  it('reads back a serialized capture', () => {
+    const capture = parseLiveCapture(fixture);
+    expect(parseLiveCapture(serializeLiveCapture(capture))).toEqual(capture);
+  });
+
+  it('rejects files that are not captures', () => {
+    expect(() => parseLiveCapture('{')).toThrow('not valid JSON');
+    expect(() => parseLiveCapture('null')).toThrow('not a Live stream capture');
+    expect(() => parseLiveCapture(JSON.stringify({ version: 1, messages: [] }))).toThrow('not a Live stream capture');
+    expect(() => parseLiveCapture(JSON.stringify({ version: 1, messages: [{ at: '0', message: {} }] }))).toThrow('malformed');
+  });
+});
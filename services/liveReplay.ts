@@ -0,0 +1,80 @@
+import { LiveServerMessage } from '@google/genai';
+import { LanguagePairs, RoleMode } from '../types';
+import { LiveConnector } from './liveConnection';
+
+export const REPLAY_SPEEDS = [1, 2, 4, 8];
+
+export interface CapturedMessage {
+  /** Milliseconds since the capture started. */
+  at: number;
+  message: LiveServerMessage;
+}
+
+/** Raw Live API server messages of one run, saved for offline demos and regression checks. */
+export interface LiveCapture {
+  version: 1;
+  recordedAt: number;
+  roleMode: RoleMode;
+  languagePairs: LanguagePairs;
+  messages: CapturedMessage[];
+}
+
+export function createLiveCapture(roleMode: RoleMode, languagePairs: LanguagePairs) {
+  const startedAt = Date.now();
+  const messages: CapturedMessage[] = [];
+  return {
+    add: (message: LiveServerMessage) => {
+      // Round-trip through JSON so later mutation of the message cannot leak into the capture.
+      messages.push({ at: Date.now() - startedAt, message: JSON.parse(JSON.stringify(message)) });
+    },
+    finish: (): LiveCapture | null =>
+      messages.length > 0 ? { version: 1, recordedAt: startedAt, roleMode, languagePairs, messages } : null,
+  };
+}
+
+export type LiveCaptureRecorder = ReturnType<typeof createLiveCapture>;
+
+export function serializeLiveCapture(capture: LiveCapture): string {
+  return JSON.stringify(capture);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+export function parseLiveCapture(json: string): LiveCapture {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error('File is not valid JSON');
+  }
+  if (!isRecord(data) || data.version !== 1 || !Array.isArray(data.messages) || data.messages.length === 0) throw new Error('File is not a Live stream capture');
+  const valid = data.messages.every((m: unknown) => isRecord(m) && typeof m.at === 'number' && isRecord(m.message));
+  if (!valid) throw new Error('Live stream capture contains malformed messages');
+  return data as unknown as LiveCapture;
+}
+
+/** Length of the capture at real-time speed, in milliseconds. */
+export const captureDuration = (capture: LiveCapture) =>
+  capture.messages.length > 0 ? capture.messages[capture.messages.length - 1].at : 0;
+
+/**
+ * Stands in for `ai.live.connect`: the returned session ignores everything sent to it
+ * and delivers the captured messages with their original spacing divided by `speed`.
+ * `onFinished` runs after the last message unless the session was closed first.
+ */
+export function createReplayConnector(capture: LiveCapture, speed: number, onFinished: () => void): LiveConnector {
+  return async (_resumeHandle, callbacks) => {
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    capture.messages.forEach(({ at, message }, i) => {
+      timers.push(setTimeout(() => {
+        callbacks.onmessage(message);
+        if (i === capture.messages.length - 1) onFinished();
+      }, at / speed));
+    });
+    return {
+      sendRealtimeInput: () => {},
+      sendClientContent: () => {},
+      close: () => timers.forEach(clearTimeout),
+    };
+  };
+}
@@ -0,0 +1,64 @@
+import { LiveServerMessage } from '@google/genai';
+import { GlossaryTerm, LanguagePairs, RoleMode, SpeakerRole, TranscriptEntry } from '../types';
+import { detectScriptLanguage, pairLanguages, resolveSpeakerRole } from './languageService';
+import { findGlossaryIssues } from './glossaryService';
+import { segmentTurn, TranscriptMark } from './segmentService';
+
+/** Transcription of the turn in progress, with where and when each streamed piece arrived. */
+export interface LiveTurn {
+  input: string;
+  output: string;
+  inputMarks: TranscriptMark[];
+  outputMarks: TranscriptMark[];
+}
+
+export const emptyTurn = (): LiveTurn => ({ input: '', output: '', inputMarks: [], outputMarks: [] });
+
+/** Adds the transcription carried by one server message; returns the same turn when it carries none. */
+export function addTranscription(turn: LiveTurn, msg: LiveServerMessage, at: number): LiveTurn {
+  const input = msg.serverContent?.inputTranscription;
+  const output = msg.serverContent?.outputTranscription;
+  if (!input && !output) return turn;
+  return {
+    input: input ? turn.input + (input.text ?? '') : turn.input,
+    output: output ? turn.output + (output.text ?? '') : turn.output,
+    inputMarks: input ? [...turn.inputMarks, { offset: turn.input.length, at }] : turn.inputMarks,
+    outputMarks: output ? [...turn.outputMarks, { offset: turn.output.length, at }] : turn.outputMarks,
+  };
+}
+
+export interface TurnContext {
+  id: string;
+  timestamp: number;
+  roleMode: RoleMode;
+  /** Speaker of the previous turn; Auto falls back to it when the languages do not decide. */
+  lastSpeaker: SpeakerRole;
+  pairs: LanguagePairs;
+  glossary: GlossaryTerm[];
+  /** Skips Auto detection. */
+  role?: SpeakerRole;
+  typed?: boolean;
+  hasAudio?: boolean;
+}
+
+/** The transcript entry for a finished turn: speaker resolved, glossary checked and long turns split into sentences. */
+export function buildTurnEntry(turn: LiveTurn, context: TurnContext): TranscriptEntry {
+  const { input, output } = turn;
+  const { pairs, roleMode, timestamp } = context;
+  const role = context.role ?? (roleMode === 'Auto' ? resolveSpeakerRole(input, output, context.lastSpeaker, pairs) : roleMode);
+  const targetLang = pairs[role].target;
+  const glossaryIssues = findGlossaryIssues(input, output, context.glossary, targetLang);
+  return {
+    id: context.id,
+    timestamp,
+    text: input,
+    translation: output,
+    sourceLang: detectScriptLanguage(input, pairLanguages(pairs)) ?? pairs[role].source,
+    targetLang,
+    role,
+    ...(glossaryIssues.length > 0 && { glossaryIssues }),
+    ...(context.hasAudio && { hasAudio: true }),
+    ...(context.typed && { typed: true }),
+    ...segmentTurn(input, output, turn.inputMarks, turn.outputMarks, timestamp),
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Registers the service worker that keeps the app shell available offline. Skipped
+ * on the dev server, where a cached shell would hide changes.
+ */
+export function registerServiceWorker() {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('./sw.js').catch(err => console.error('Service worker registration failed:', err));
+  });
+}
+
+export const isOnline = () => navigator.onLine;
+
+/** Calls `onChange` whenever the browser goes on- or offline; returns the unsubscribe function. */
+export function watchOnline(onChange: (online: boolean) => void): () => void {
+  const update = () => onChange(navigator.onLine);
+  window.addEventListener('online', update);
+  window.addEventListener('offline', update);
+  return () => {
+    window.removeEventListener('online', update);
+    window.removeEventListener('offline', update);
+  };
+}
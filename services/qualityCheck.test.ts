@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { QualityCheck, TranscriptEntry } from '../types';
+import { checkTranslationQuality, createQualityQueue, findQualityIssues, QUALITY_FLAG_SCORE, textSimilarity } from './qualityCheck';
+import { createStubTextModel } from './textModel';
+
+const entry = (text: string, translation: string, overrides: Partial<TranscriptEntry> = {}): TranscriptEntry => ({
+  id: 'e1', timestamp: 1700000000000, text, translation, sourceLang: 'English', targetLang: 'Thai', role: 'Professor', ...overrides,
+});
+
+describe('textSimilarity', () => {
+  it('ignores case, spacing and punctuation', () => {
+    expect(textSimilarity('Hello, World!', 'hello world')).toBe(1);
+  });
+
+  it('scores unrelated text near zero and close text high', () => {
+    expect(textSimilarity('regression analysis', 'ข้าวผัด')).toBe(0);
+    expect(textSimilarity('the lecture starts at nine', 'the lecture begins at nine')).toBeGreaterThan(0.6);
+  });
+
+  it('compares Thai and Chinese by characters', () => {
+    expect(textSimilarity('今天我们学习回归分析', '今天我们学习回归')).toBeGreaterThan(0.8);
+    expect(textSimilarity('วันนี้เราเรียน', 'วันนี้เราเรียน')).toBe(1);
+  });
+
+  it('treats Thai and full-width digits as ASCII digits', () => {
+    expect(textSimilarity('๑๒๓', '123')).toBe(1);
+    expect(textSimilarity('１２３', '123')).toBe(1);
+  });
+});
+
+describe('findQualityIssues', () => {
+  it('reports numbers that changed in either direction', () => {
+    const issues = findQualityIssues(entry('Submit 3 essays by 1,500 words', 'x'), 'Submit 4 essays by 1500 words');
+    expect(issues).toEqual([{ kind: 'number', detail: '3' }, { kind: 'number', detail: '4' }]);
+  });
+
+  it('reports names that were neither kept nor back-translated', () => {
+    const issues = findQualityIssues(entry('We read Keynes and then Hayek.', 'เราอ่าน Keynes แล้ว'), 'We read Keynes and then another author.');
+    expect(issues).toEqual([{ kind: 'name', detail: 'Hayek' }]);
+  });
+
+  it('does not treat the first word of a sentence as a name', () => {
+    expect(findQualityIssues(entry('Today we start.', 'x'), 'We start now.')).toEqual([]);
+  });
+
+  it('reports a lost negation', () => {
+    expect(findQualityIssues(entry('This is not on the exam.', 'x'), 'This is on the exam.'))
+      .toEqual([{ kind: 'negation', detail: '1 → 0' }]);
+  });
+
+  it('counts Vietnamese negations that start or end with a non-ASCII letter', () => {
+    const vietnamese = (text: string) => entry(text, 'x', { sourceLang: 'Vietnamese' });
+    expect(findQualityIssues(vietnamese('Các em đừng nộp bài muộn.'), 'Các em nộp bài muộn.'))
+      .toEqual([{ kind: 'negation', detail: '1 → 0' }]);
+    expect(findQualityIssues(vietnamese('Các em chớ lo.'), 'Các em lo.'))
+      .toEqual([{ kind: 'negation', detail: '1 → 0' }]);
+    expect(findQualityIssues(vietnamese('Các em chớ lo.'), 'Các em đừng lo.')).toEqual([]);
+  });
+});
+
+describe('checkTranslationQuality', () => {
+  it('passes a faithful back-translation', async () => {
+    const check = await checkTranslationQuality(entry('The exam is on Friday.', 'สอบวันศุกร์'), createStubTextModel([' The exam is on Friday. ']));
+    expect(check).toMatchObject({ backTranslation: 'The exam is on Friday.', score: 1, issues: [], flagged: false });
+  });
+
+  it('flags a back-translation that drifted from the source', async () => {
+    const check = await checkTranslationQuality(entry('The exam is on Friday at 9.', 'x'), createStubTextModel(['Bring snacks on Monday at 10.']));
+    expect(check.score).toBeLessThan(QUALITY_FLAG_SCORE);
+    expect(check.flagged).toBe(true);
+  });
+});
+
+describe('createQualityQueue', () => {
+  it('checks queued entries in order and skips empty ones', async () => {
+    const results: [string, QualityCheck][] = [];
+    const errors: unknown[] = [];
+    const model = createStubTextModel(['First answer.', 'Second answer.']);
+    const done = new Promise<void>(resolve => {
+      const queue = createQualityQueue(() => model, (e, check) => {
+        results.push([e.id, check]);
+        if (results.length === 2) resolve();
+      }, err => errors.push(err));
+      queue.enqueue(entry('First answer.', 'x', { id: 'a' }));
+      queue.enqueue(entry('', 'x', { id: 'empty' }));
+      queue.enqueue(entry('Second answer.', 'x', { id: 'b' }));
+    });
+    await done;
+    expect(results.map(([id, check]) => [id, check.flagged])).toEqual([['a', false], ['b', false]]);
+    expect(errors).toEqual([]);
+  });
+
+  it('drops waiting entries and the check in flight when cleared', async () => {
+    const results: string[] = [];
+    const model = createStubTextModel(['First answer.', 'Third answer.']);
+    const done = new Promise<void>(resolve => {
+      const queue = createQualityQueue(() => model, e => {
+        results.push(e.id);
+        resolve();
+      }, () => {});
+      queue.enqueue(entry('First answer.', 'x', { id: 'a' }));
+      queue.enqueue(entry('Second answer.', 'x', { id: 'b' }));
+      queue.clear();
+      queue.enqueue(entry('Third answer.', 'x', { id: 'c' }));
+    });
+    await done;
+    expect(results).toEqual(['c']);
+  });
+});
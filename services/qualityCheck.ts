@@ -0,0 +1,135 @@
+import { LanguageId, QualityCheck, QualityIssue, TranscriptEntry } from '../types';
+import { getBackTranslationInstruction } from '../constants';
+import { entryTargetLang } from './languageService';
+import { TextModel } from './textModel';
+
+/** Entries whose back-translation shares less than this with the source text are flagged. */
+export const QUALITY_FLAG_SCORE = 0.4;
+
+// Negation markers per language, counted on both sides of the comparison.
+const NEGATIONS: Record<LanguageId, RegExp> = {
+  Thai: /ไม่|มิได้|หาใช่|อย่า|ห้าม/g,
+  Chinese: /不|没|沒|未|别|別|非|无|無/g,
+  Japanese: /ない|ません|ず|ぬ|無|非/g,
+  // \b only knows ASCII letters, so words like đừng and chớ need Unicode-aware boundaries.
+  Vietnamese: /(?<![\p{L}\p{M}])(?:không|chẳng|chưa|đừng|chớ)(?![\p{L}\p{M}])/giu,
+  English: /\b(?:not|no|never|none|nothing|neither|nor|cannot)\b|n't\b/gi,
+};
+
+const digitsToAscii = (text: string) => text
+  .replace(/[๐-๙]/g, d => String(d.charCodeAt(0) - 0x0E50))
+  .replace(/[０-９]/g, d => String(d.charCodeAt(0) - 0xFF10));
+
+const normalize = (text: string) => digitsToAscii(text).toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+
+const bigrams = (text: string) => {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+};
+
+/**
+ * Dice coefficient over character bigrams. Characters rather than words, because
+ * Thai, Chinese and Japanese are written without spaces between words.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const left = normalize(a);
+  const right = normalize(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+  const leftGrams = bigrams(left);
+  let shared = 0;
+  for (const [gram, count] of bigrams(right)) shared += Math.min(count, leftGrams.get(gram) ?? 0);
+  return (2 * shared) / (left.length - 1 + right.length - 1);
+}
+
+const numbersIn = (text: string) =>
+  (digitsToAscii(text).match(/\d+(?:[.,]\d+)*/g) ?? []).map(n => n.replace(/,(?=\d{3}\b)/g, ''));
+
+// Capitalised Latin words not opening a sentence; in Thai or Chinese speech these are names and terms kept as spoken.
+const namesIn = (text: string) => text.split(/[.!?。！？]/).flatMap(sentence => {
+  const words = sentence.match(/\b[A-Z][\p{L}\d'-]+/gu) ?? [];
+  return words.length > 0 && sentence.trimStart().startsWith(words[0]) ? words.slice(1) : words;
+});
+
+const countMatches = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+/** Numbers, names and negations of the source text that the back-translation does not preserve. */
+export function findQualityIssues(entry: TranscriptEntry, backTranslation: string): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  const backNumbers = numbersIn(backTranslation);
+  const sourceNumbers = numbersIn(entry.text);
+  const changedNumbers = [
+    ...sourceNumbers.filter(n => !backNumbers.includes(n)),
+    ...backNumbers.filter(n => !sourceNumbers.includes(n)),
+  ];
+  [...new Set(changedNumbers)].forEach(detail => issues.push({ kind: 'number', detail }));
+
+  // A name kept verbatim in the translation is fine even if the back-translation transliterates it.
+  const kept = `${backTranslation} ${entry.translation}`.toLowerCase();
+  [...new Set(namesIn(entry.text))]
+    .filter(name => !kept.includes(name.toLowerCase()))
+    .forEach(detail => issues.push({ kind: 'name', detail }));
+
+  const pattern = NEGATIONS[entry.sourceLang];
+  const sourceNegations = countMatches(entry.text, pattern);
+  const backNegations = countMatches(backTranslation, pattern);
+  if (sourceNegations !== backNegations) issues.push({ kind: 'negation', detail: `${sourceNegations} → ${backNegations}` });
+  return issues;
+}
+
+/** Translates the entry's translation back into its source language and compares it with what was said. */
+export async function checkTranslationQuality(entry: TranscriptEntry, model: TextModel): Promise<QualityCheck> {
+  const backTranslation = (await model.generate({
+    systemInstruction: getBackTranslationInstruction(entryTargetLang(entry), entry.sourceLang),
+    prompt: entry.translation,
+  })).trim();
+  const score = Math.round(textSimilarity(entry.text, backTranslation) * 100) / 100;
+  const issues = findQualityIssues(entry, backTranslation);
+  return { backTranslation, score, issues, flagged: score < QUALITY_FLAG_SCORE || issues.length > 0, checkedAt: Date.now() };
+}
+
+/**
+ * Runs checks one at a time in the background, so a burst of finished turns does not
+ * fire a burst of requests. Results are handed back with the text they were run on.
+ * `clear` drops the waiting entries and the result of the check in flight, so nothing
+ * from a session that was switched away from lands in the next one.
+ */
+export function createQualityQueue(getModel: () => TextModel, onResult: (entry: TranscriptEntry, check: QualityCheck) => void, onError: (err: unknown) => void) {
+  const pending: TranscriptEntry[] = [];
+  let running = false;
+  let generation = 0;
+
+  const next = async () => {
+    if (running) return;
+    running = true;
+    while (pending.length > 0) {
+      const entry = pending.shift()!;
+      const queuedIn = generation;
+      try {
+        const check = await checkTranslationQuality(entry, getModel());
+        if (queuedIn === generation) onResult(entry, check);
+      } catch (err) {
+        if (queuedIn === generation) onError(err);
+      }
+    }
+    running = false;
+  };
+
+  return {
+    enqueue: (entry: TranscriptEntry) => {
+      if (!entry.text.trim() || !entry.translation.trim()) return;
+      pending.push(entry);
+      next();
+    },
+    clear: () => {
+      pending.length = 0;
+      generation++;
+    },
+  };
+}
+
+export type QualityQueue = ReturnType<typeof createQualityQueue>;
@@ -0,0 +1,149 @@
+import { TurnRecording } from '../types';
+import { RECORDING_STORE, withStore } from './db';
+import { decodeAudio, PolyphaseResampler } from './audioService';
+
+export const SOURCE_SAMPLE_RATE = 16000;
+export const TRANSLATION_SAMPLE_RATE = 24000;
+// A single turn keeps at most ten minutes of source audio.
+const MAX_TURN_SOURCE_MS = 10 * 60 * 1000;
+const GAP_AFTER_SOURCE_MS = 300;
+const GAP_AFTER_TURN_MS = 800;
+
+export type RecordingTrack = 'source' | 'translation';
+
+/** Part of a track to play, in ms from its first sample. */
+export interface AudioRange {
+  fromMs: number;
+  toMs: number;
+}
+
+/**
+ * Collects the base64 PCM chunks of the turn in progress. `take` returns the
+ * finished turn and starts a new one.
+ */
+export function createTurnRecorder() {
+  let source: string[] = [];
+  let translation: string[] = [];
+  let sourceMs = 0;
+  let sourceStartedAt = 0;
+  let translationStartedAt = 0;
+
+  return {
+    addSource: (data: string, durationMs: number) => {
+      if (sourceMs >= MAX_TURN_SOURCE_MS) return;
+      if (source.length === 0) sourceStartedAt = Date.now() - durationMs;
+      source.push(data);
+      sourceMs += durationMs;
+    },
+    addTranslation: (data: string) => {
+      if (translation.length === 0) translationStartedAt = Date.now();
+      translation.push(data);
+    },
+    isEmpty: () => source.length === 0 && translation.length === 0,
+    take: (entryId: string, sessionId: string, sessionStart: number): TurnRecording => {
+      const recording: TurnRecording = {
+        entryId,
+        sessionId,
+        sourceOffsetMs: source.length ? sourceStartedAt - sessionStart : 0,
+        translationOffsetMs: translation.length ? translationStartedAt - sessionStart : 0,
+        source: concatChunks(source),
+        translation: concatChunks(translation),
+      };
+      source = []; translation = []; sourceMs = 0;
+      return recording;
+    },
+    reset: () => { source = []; translation = []; sourceMs = 0; },
+  };
+}
+
+export type TurnRecorder = ReturnType<typeof createTurnRecorder>;
+
+function concatChunks(chunks: string[]): ArrayBuffer {
+  const decoded = chunks.map(decodeAudio);
+  const out = new Uint8Array(decoded.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  decoded.forEach(c => { out.set(c, offset); offset += c.length; });
+  return out.buffer;
+}
+
+export async function saveRecording(recording: TurnRecording): Promise<void> {
+  await withStore(RECORDING_STORE, 'readwrite', store => store.put(recording));
+}
+
+export async function getRecording(entryId: string): Promise<TurnRecording | undefined> {
+  return withStore<TurnRecording | undefined>(RECORDING_STORE, 'readonly', store => store.get(entryId));
+}
+
+export async function listRecordings(sessionId: string): Promise<TurnRecording[]> {
+  return withStore<TurnRecording[]>(RECORDING_STORE, 'readonly', store => store.index('sessionId').getAll(sessionId));
+}
+
+export async function deleteSessionRecordings(sessionId: string): Promise<void> {
+  const keys = await withStore<IDBValidKey[]>(RECORDING_STORE, 'readonly', store => store.index('sessionId').getAllKeys(sessionId));
+  await Promise.all(keys.map(key => withStore(RECORDING_STORE, 'readwrite', store => store.delete(key))));
+}
+
+const toFloat = (pcm: ArrayBuffer) => Float32Array.from(new Int16Array(pcm), v => v / 32768);
+
+export function trackSampleRate(track: RecordingTrack) {
+  return track === 'source' ? SOURCE_SAMPLE_RATE : TRANSLATION_SAMPLE_RATE;
+}
+
+/**
+ * Plays one track of a recording, or part of it, into `output` (a node on `ctx`), and
+ * returns its source node so it can be stopped.
+ */
+export function playRecording(ctx: AudioContext, output: AudioNode, recording: TurnRecording, track: RecordingTrack, onEnded: () => void, range?: AudioRange): AudioBufferSourceNode | null {
+  const samples = toFloat(recording[track]);
+  if (samples.length === 0) return null;
+  const buffer = ctx.createBuffer(1, samples.length, trackSampleRate(track));
+  buffer.getChannelData(0).set(samples);
+  const node = ctx.createBufferSource();
+  node.buffer = buffer;
+  node.connect(output);
+  node.addEventListener('ended', onEnded);
+  if (range) node.start(0, range.fromMs / 1000, Math.max(0, range.toMs - range.fromMs) / 1000);
+  else node.start();
+  return node;
+}
+
+export function encodeWav(samples: Int16Array, sampleRate: number): Blob {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => { for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i)); };
+  const dataBytes = samples.length * 2;
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + dataBytes, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);
+  header.setUint16(22, 1, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  writeString(36, 'data');
+  header.setUint32(40, dataBytes, true);
+  return new Blob([header.buffer, samples.buffer as ArrayBuffer], { type: 'audio/wav' });
+}
+
+/**
+ * Builds one 24 kHz mono WAV of the given turns in entry order: each turn's source
+ * speech, a short pause, then its translation. Idle time between turns is not kept.
+ */
+export function buildSessionWav(recordings: TurnRecording[]): Blob {
+  const gap = (ms: number) => new Int16Array(Math.round((ms / 1000) * TRANSLATION_SAMPLE_RATE));
+  const parts: Int16Array[] = [];
+  recordings.forEach(rec => {
+    if (rec.source.byteLength) {
+      const upsampled = new PolyphaseResampler(SOURCE_SAMPLE_RATE, TRANSLATION_SAMPLE_RATE).process(toFloat(rec.source));
+      parts.push(Int16Array.from(upsampled, v => Math.max(-32768, Math.min(32767, v * 32768))), gap(GAP_AFTER_SOURCE_MS));
+    }
+    if (rec.translation.byteLength) parts.push(new Int16Array(rec.translation));
+    parts.push(gap(GAP_AFTER_TURN_MS));
+  });
+  const total = new Int16Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { total.set(p, offset); offset += p.length; });
+  return encodeWav(total, TRANSLATION_SAMPLE_RATE);
+}
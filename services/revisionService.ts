@@ -0,0 +1,30 @@
+import { EntryRevision, LanguagePairs, TranscriptEntry } from '../types';
+import { entryTargetLang } from './languageService';
+import { TextModel } from './textModel';
+import { translateTypedText } from './typedInput';
+
+export type EntryChanges = Partial<Pick<TranscriptEntry, 'text' | 'translation'>>;
+
+/**
+ * Applies a correction, keeping the replaced text as a revision. Sentence segments
+ * no longer match corrected text and are dropped. Unchanged edits return the entry as is.
+ */
+export function reviseEntry(entry: TranscriptEntry, changes: EntryChanges, change: EntryRevision['change']): TranscriptEntry {
+  const text = changes.text ?? entry.text;
+  const translation = changes.translation ?? entry.translation;
+  if (text === entry.text && translation === entry.translation) return entry;
+  const revision: EntryRevision = { text: entry.text, translation: entry.translation, replacedAt: Date.now(), change };
+  const { segments, ...rest } = entry;
+  return { ...rest, text, translation, revisions: [...(entry.revisions ?? []), revision] };
+}
+
+export const withoutRevisions = ({ revisions, ...entry }: TranscriptEntry): TranscriptEntry => entry;
+
+/**
+ * Translates corrected source text with the same role instruction as the live
+ * session, in the entry's own language direction.
+ */
+export async function retranslateEntry(entry: TranscriptEntry, text: string, pairs: LanguagePairs, glossaryPrompt: string, model: TextModel): Promise<string> {
+  const entryPairs = { ...pairs, [entry.role]: { source: entry.sourceLang, target: entryTargetLang(entry) } };
+  return translateTypedText(text, entry.role, entryPairs, glossaryPrompt, model);
+}
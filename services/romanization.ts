@@ -0,0 +1,141 @@
+import { pinyin } from 'pinyin-pro';
+import { LanguageId } from '../types';
+
+/** A run of text, with its reading when it is Chinese or Thai script. */
+export interface RubySegment {
+  text: string;
+  reading?: string;
+}
+
+/** Languages with a reading aid: Pinyin with tone marks for Chinese, RTGS for Thai. */
+export const hasRomanization = (lang: LanguageId) => lang === 'Chinese' || lang === 'Thai';
+
+// Initial and final sound of each consonant. The finals of ย and ว are the glides that
+// close a vowel (าย → ai, าว → ao); ห and อ are silent at the end of a syllable.
+const THAI_CONSONANTS: Record<string, [string, string]> = {
+  'ก': ['k', 'k'], 'ข': ['kh', 'k'], 'ฃ': ['kh', 'k'], 'ค': ['kh', 'k'], 'ฅ': ['kh', 'k'], 'ฆ': ['kh', 'k'], 'ง': ['ng', 'ng'],
+  'จ': ['ch', 't'], 'ฉ': ['ch', 't'], 'ช': ['ch', 't'], 'ซ': ['s', 't'], 'ฌ': ['ch', 't'], 'ญ': ['y', 'n'],
+  'ฎ': ['d', 't'], 'ฏ': ['t', 't'], 'ฐ': ['th', 't'], 'ฑ': ['th', 't'], 'ฒ': ['th', 't'], 'ณ': ['n', 'n'],
+  'ด': ['d', 't'], 'ต': ['t', 't'], 'ถ': ['th', 't'], 'ท': ['th', 't'], 'ธ': ['th', 't'], 'น': ['n', 'n'],
+  'บ': ['b', 'p'], 'ป': ['p', 'p'], 'ผ': ['ph', 'p'], 'ฝ': ['f', 'p'], 'พ': ['ph', 'p'], 'ฟ': ['f', 'p'], 'ภ': ['ph', 'p'], 'ม': ['m', 'm'],
+  'ย': ['y', 'i'], 'ร': ['r', 'n'], 'ล': ['l', 'n'], 'ว': ['w', 'o'], 'ศ': ['s', 't'], 'ษ': ['s', 't'], 'ส': ['s', 't'],
+  'ห': ['h', ''], 'ฬ': ['l', 'n'], 'อ': ['', ''], 'ฮ': ['h', ''],
+};
+
+// True clusters, and ห/อ leading a sonorant they only change the tone of.
+const CLUSTER = '[กขคปพผบฟ]ล|[กขคตปพผบดฟท]ร|[กขค]ว|[ศส]ร|ห[งญนมยรลว]|อย';
+const INITIAL = `${CLUSTER}|[ก-ฮ]`;
+// A consonant closes the syllable unless a vowel sign follows it and makes it the next initial.
+const FINAL = '(?!อ)[ก-ฮ](?![ะ-ฺ็])';
+
+// Vowel patterns around the initial (I) and an optional final (F), longest spellings first.
+const SYLLABLES: [string, string][] = [
+  ['เ(I)็(F)', 'e'],
+  ['เ(I)ียะ', 'ia'], ['เ(I)ีย(F)?', 'ia'],
+  ['เ(I)ือะ', 'uea'], ['เ(I)ือ(F)?', 'uea'],
+  ['เ(I)าะ', 'o'], ['เ(I)า', 'ao'],
+  ['เ(I)อะ', 'oe'], ['เ(I)ิ(F)?', 'oe'], ['เ(I)ย', 'oei'], ['เ(I)อ(F)?', 'oe'],
+  ['เ(I)ะ', 'e'], ['เ(I)(F)?', 'e'],
+  ['แ(I)ะ', 'ae'], ['แ(I)็(F)', 'ae'], ['แ(I)(F)?', 'ae'],
+  ['โ(I)ะ', 'o'], ['โ(I)(F)?', 'o'],
+  ['[ใไ](I)ย?', 'ai'],
+  ['(I)ัวะ', 'ua'], ['(I)ัว(F)?', 'ua'], ['(I)ั(F)', 'a'],
+  ['(I)รร(F)', 'a'], ['(I)รร', 'an'],
+  ['(I)ะ', 'a'], ['(I)า(F)?', 'a'], ['(I)ำ', 'am'],
+  ['(I)ิ(F)?', 'i'], ['(I)ี(F)?', 'i'], ['(I)ึ(F)?', 'ue'], ['(I)ือ?(F)?', 'ue'],
+  ['(I)ุ(F)?', 'u'], ['(I)ู(F)?', 'u'],
+  ['(I)อ(F)?', 'o'], ['(I)ว(F)', 'ua'],
+  // No vowel sign: a closed syllable reads o, an open one a (ขนม → kha-nom, ตรง → trong).
+  ['(C)(F)', 'o'],
+  ['(I)(?=[ก-ฮ][ก-ฮ](?![ะ-ฺ็]))', 'a'],
+  ['(I)(F)', 'o'],
+  ['(I)', 'a'],
+].map(([pattern, vowel]) => [
+  pattern.replace('(C)', `(?<i>${CLUSTER})`).replace('(I)', `(?<i>${INITIAL})`).replace(/\(F\)/, `(?<f>${FINAL})`),
+  vowel,
+]);
+
+const SYLLABLE_PATTERNS = SYLLABLES.map(([pattern, vowel]) => [new RegExp(pattern, 'y'), vowel] as const);
+
+function thaiInitial(cluster: string): string {
+  const [first, second] = [...cluster];
+  if (!second) return THAI_CONSONANTS[first][0];
+  if (first === 'ห' || first === 'อ') return THAI_CONSONANTS[second][0];
+  if (second === 'ร' && 'ทศส'.includes(first)) return 's';
+  return THAI_CONSONANTS[first][0] + THAI_CONSONANTS[second][0];
+}
+
+/**
+ * Romanizes one Thai word by the Royal Thai General System. Rule based, without a
+ * dictionary: regular spellings come out right, irregular and loan words approximately.
+ */
+export function romanizeThai(word: string): string {
+  const text = word
+    .replace(/[่-๋]/g, '')
+    // Letters under the silent mark (ศาสตร์ → ศาส), including the ทร/ตร pairs it often covers.
+    .replace(/(?:[ทตดส]ร|[ก-ฮ])[ิุ]?์/g, '');
+  let out = '';
+  let at = 0;
+  while (at < text.length) {
+    const char = text[at];
+    if (char === 'ฤ' || char === 'ฦ') {
+      out += char === 'ฤ' ? 'rue' : 'lue';
+      at++;
+      continue;
+    }
+    const match = SYLLABLE_PATTERNS.map(([pattern, vowel]) => {
+      pattern.lastIndex = at;
+      const m = pattern.exec(text);
+      return m && { m, vowel };
+    }).find(Boolean);
+    if (match) {
+      const { i, f } = match.m.groups ?? {};
+      out += thaiInitial(i) + match.vowel + (f ? THAI_CONSONANTS[f][1] : '');
+      at += match.m[0].length;
+    } else {
+      // Stray signs are dropped; digits and other scripts pass through.
+      if (!/[฀-๿]/.test(char)) out += char;
+      at++;
+    }
+  }
+  return out;
+}
+
+const THAI_LETTERS = /[ก-ฮ]/;
+
+function annotateThai(text: string): RubySegment[] {
+  // Thai is written without spaces; the browser's word breaker keeps syllables within a word.
+  const words = [...new Intl.Segmenter('th', { granularity: 'word' }).segment(text)];
+  return words.map(({ segment, isWordLike }) => {
+    const reading = isWordLike && THAI_LETTERS.test(segment) ? romanizeThai(segment) : '';
+    return reading ? { text: segment, reading } : { text: segment };
+  });
+}
+
+function annotateChinese(text: string): RubySegment[] {
+  // Whole-text conversion, so polyphonic characters are read in context (银行 yín háng).
+  return pinyin(text, { type: 'all' }).map(c => (c.isZh && c.pinyin ? { text: c.origin, reading: c.pinyin } : { text: c.origin }));
+}
+
+/** Splits text into segments whose concatenation is the text, with readings where the language has one. */
+export function annotate(text: string, lang: LanguageId): RubySegment[] {
+  const segments = lang === 'Chinese' ? annotateChinese(text) : lang === 'Thai' ? annotateThai(text) : [{ text }];
+  // Neighbouring plain runs are merged, so punctuation and Latin words stay in one piece.
+  return segments.reduce<RubySegment[]>((merged, s) => {
+    const last = merged[merged.length - 1];
+    if (last && !last.reading && !s.reading) last.text += s.text;
+    else merged.push({ ...s });
+    return merged;
+  }, []);
+}
+
+/** The reading of the whole text on one line, or '' when nothing in it has a reading. */
+export function romanize(text: string, lang: LanguageId): string {
+  const segments = annotate(text, lang);
+  if (!segments.some(s => s.reading)) return '';
+  return segments.reduce((out, s, i) => {
+    const piece = s.reading ?? s.text;
+    const spaced = out && (s.reading || segments[i - 1].reading) && !/\s$/.test(out) && !/^[\s\p{P}]/u.test(piece);
+    return out + (spaced ? ' ' : '') + piece;
+  }, '').trim();
+}
@@ -0,0 +1,113 @@
+import { TranscriptEntry, TranscriptSegment, TurnRecording } from '../types';
+import { AudioRange, RecordingTrack, trackSampleRate } from './recordingService';
+
+/** Where a streamed transcription chunk began in the turn's text, and when it arrived. */
+export interface TranscriptMark {
+  offset: number;
+  at: number;
+}
+
+interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Sentence-final punctuation for Chinese/Japanese and Latin-script languages.
+const TERMINAL = /[。！？；…!?;]/;
+const THAI_CHAR = /[\u0E00-\u0E7F]/;
+// Thai marks sentences with a space rather than punctuation; short gaps are only phrase breaks.
+const THAI_SENTENCE_MIN_CHARS = 40;
+const MIN_SEGMENT_CHARS = 8;
+const MAX_SEGMENT_CHARS = 240;
+// A pause this long between transcription chunks ends a sentence even without punctuation.
+const PAUSE_BOUNDARY_MS = 900;
+// Input transcription arrives roughly this long after the words were spoken.
+const TRANSCRIPTION_LAG_MS = 600;
+
+/** Arrival time of the chunk containing `offset`. */
+function timeAt(marks: TranscriptMark[], offset: number, fallback: number): number {
+  let at = marks[0]?.at ?? fallback;
+  for (const mark of marks) {
+    if (mark.offset > offset) break;
+    at = mark.at;
+  }
+  return at;
+}
+
+/**
+ * Splits text into sentence ranges. Boundaries are terminal punctuation, spaces in
+ * Thai text once a sentence is long enough, and pauses between streamed chunks.
+ */
+export function splitSentences(text: string, marks: TranscriptMark[] = []): TextRange[] {
+  const pauses = new Set<number>();
+  for (let i = 1; i < marks.length; i++) {
+    if (marks[i].at - marks[i - 1].at >= PAUSE_BOUNDARY_MS) pauses.add(marks[i].offset);
+  }
+  const ranges: TextRange[] = [];
+  let start = 0;
+  const cut = (end: number) => {
+    if (text.slice(start, end).trim()) ranges.push({ start, end });
+    start = end;
+  };
+  for (let i = 0; i < text.length; i++) {
+    const length = i - start;
+    const ch = text[i];
+    if (pauses.has(i) && length >= MIN_SEGMENT_CHARS) cut(i);
+    else if (TERMINAL.test(ch) && length + 1 >= MIN_SEGMENT_CHARS && !TERMINAL.test(text[i + 1] ?? '')) cut(i + 1);
+    else if (ch === '.' && /\s/.test(text[i + 1] ?? ' ') && length + 1 >= MIN_SEGMENT_CHARS) cut(i + 1);
+    else if (/\s/.test(ch) && THAI_CHAR.test(text[i - 1] ?? '') && length >= THAI_SENTENCE_MIN_CHARS) cut(i + 1);
+    else if (/\s/.test(ch) && length >= MAX_SEGMENT_CHARS) cut(i + 1);
+  }
+  cut(text.length);
+  // A trailing fragment too short to stand alone joins the sentence before it.
+  if (ranges.length > 1 && text.slice(ranges[ranges.length - 1].start).trim().length < MIN_SEGMENT_CHARS) {
+    const last = ranges.pop()!;
+    ranges[ranges.length - 1].end = last.end;
+  }
+  return ranges;
+}
+
+/**
+ * Builds sentence segments for a finished turn. Translation sentences are aligned
+ * to source sentences by their relative position in the turn, since the model
+ * translates in order. Returns no segments when the turn is a single sentence.
+ */
+export function segmentTurn(text: string, translation: string, inputMarks: TranscriptMark[], outputMarks: TranscriptMark[], endedAt: number): Pick<TranscriptEntry, 'startedAt' | 'segments'> {
+  const startedAt = inputMarks[0]?.at ?? outputMarks[0]?.at;
+  const sources = splitSentences(text, inputMarks);
+  if (sources.length < 2) return startedAt ? { startedAt } : {};
+  const targets = splitSentences(translation, outputMarks);
+  const assigned: TextRange[][] = sources.map(() => []);
+  targets.forEach(t => {
+    const position = ((t.start + t.end) / 2 / Math.max(1, translation.length)) * text.length;
+    const index = sources.findIndex(s => position < s.end);
+    assigned[index === -1 ? sources.length - 1 : index].push(t);
+  });
+  const segments: TranscriptSegment[] = sources.map((s, i) => {
+    const parts = assigned[i];
+    return {
+      text: text.slice(s.start, s.end).trim(),
+      translation: parts.length ? translation.slice(parts[0].start, parts[parts.length - 1].end).trim() : '',
+      startedAt: timeAt(inputMarks, s.start, startedAt ?? endedAt),
+    };
+  });
+  return { startedAt: startedAt ?? endedAt, segments };
+}
+
+/**
+ * Portion of a turn's recording that belongs to one segment, in ms from the start of
+ * the track. Source audio follows the transcription times; the synthesized
+ * translation has no per-word timing, so it is split by the length of each segment's text.
+ */
+export function segmentAudioRange(entry: TranscriptEntry, index: number, recording: TurnRecording, track: RecordingTrack, sessionCreatedAt: number): AudioRange {
+  const segments = entry.segments ?? [];
+  const durationMs = (recording[track].byteLength / 2 / trackSampleRate(track)) * 1000;
+  if (track === 'source') {
+    const trackStart = sessionCreatedAt + recording.sourceOffsetMs;
+    const offsetOf = (i: number) => i >= segments.length ? durationMs : Math.min(durationMs, Math.max(0, segments[i].startedAt - TRANSCRIPTION_LAG_MS - trackStart));
+    return { fromMs: offsetOf(index), toMs: offsetOf(index + 1) };
+  }
+  const total = segments.reduce((n, s) => n + s.translation.length, 0) || 1;
+  const before = segments.slice(0, index).reduce((n, s) => n + s.translation.length, 0);
+  return { fromMs: (before / total) * durationMs, toMs: ((before + segments[index].translation.length) / total) * durationMs };
+}
@@ -0,0 +1,45 @@
+import { ShortcutAction, ShortcutBindings } from '../types';
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = ['toggleSession', 'switchRole', 'pushToTalk', 'pauseInput', 'pauseOutput', 'export', 'help'];
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  toggleSession: 'Alt+Enter',
+  switchRole: 'Alt+KeyR',
+  pushToTalk: 'Space',
+  pauseInput: 'Alt+KeyP',
+  pauseOutput: 'Alt+KeyM',
+  export: 'Alt+KeyE',
+  help: 'Shift+Slash',
+};
+
+const MODIFIER_CODES = new Set(['ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight']);
+
+/** Combination of a key event, or null for a lone modifier key. */
+export function comboFromEvent(e: KeyboardEvent): string | null {
+  if (!e.code || MODIFIER_CODES.has(e.code)) return null;
+  const modifiers = [e.ctrlKey && 'Ctrl', e.altKey && 'Alt', e.shiftKey && 'Shift', e.metaKey && 'Meta'].filter(Boolean);
+  return [...modifiers, e.code].join('+');
+}
+
+/** Push-to-talk is held, so its key-up matches on the key alone whatever modifiers were released first. */
+export const comboKey = (combo: string) => combo.split('+').pop() ?? '';
+
+const KEY_LABELS: Record<string, string> = { Space: 'Space', Slash: '/', Period: '.', Comma: ',', Semicolon: ';', Quote: "'", Backquote: '`', Minus: '-', Equal: '=', BracketLeft: '[', BracketRight: ']', Backslash: '\\' };
+
+export function formatCombo(combo: string): string {
+  return combo.split('+').map(part => KEY_LABELS[part] ?? part.replace(/^(Key|Digit|Numpad)/, '')).join(' + ');
+}
+
+export function findShortcut(bindings: ShortcutBindings, combo: string): ShortcutAction | undefined {
+  return SHORTCUT_ACTIONS.find(action => bindings[action] === combo);
+}
+
+const TEXT_INPUT_TYPES = new Set(['text', 'search', 'email', 'number', 'password', 'tel', 'url']);
+
+/** Typing in a field must never trigger shortcuts. */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null;
+  if (!el) return false;
+  if (el.isContentEditable || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT') return true;
+  return el.tagName === 'INPUT' && TEXT_INPUT_TYPES.has((el as HTMLInputElement).type);
+}
@@ -0,0 +1,26 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+import { TTS_MODEL } from '../constants';
+
+/** Reads text aloud; resolves to base64 16-bit mono PCM at TRANSLATION_SAMPLE_RATE. */
+export interface SpeechModel {
+  speak: (text: string, voiceName: string) => Promise<string>;
+}
+
+export function createGeminiSpeechModel(apiKey: string | undefined): SpeechModel {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    speak: async (text, voiceName) => {
+      const response = await ai.models.generateContent({
+        model: TTS_MODEL,
+        contents: text,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+        },
+      });
+      const data = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData?.data;
+      if (!data) throw new Error('The model returned no audio');
+      return data;
+    },
+  };
+}
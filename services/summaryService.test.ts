@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { LectureSession, TranscriptEntry } from '../types';
+import { parseSummary, summarizeSession } from './summaryService';
+import { createStubTextModel, TextModel, TextRequest } from './textModel';
+
+const entry = (id: string, text: string, translation: string, overrides: Partial<TranscriptEntry> = {}): TranscriptEntry => ({
+  id, timestamp: 1700000000000, text, translation, sourceLang: 'Thai', targetLang: 'Chinese', role: 'Professor', ...overrides,
+});
+
+const session = (entries: TranscriptEntry[]): LectureSession => ({
+  id: 's1', name: 'Econometrics', courseCode: 'ECON 501', participants: [], createdAt: 1700000000000, updatedAt: 1700000000000, entries,
+});
+
+const reply = JSON.stringify({
+  summaries: [
+    { language: 'Thai', text: ' สรุปบทเรียน ' },
+    { language: 'Chinese', text: '课程总结' },
+    { language: 'Klingon', text: 'not a configured language' },
+  ],
+  keyTerms: [{ term: 'regression', translation: '回归', definition: 'A model of one variable by others.' }, { term: '' }],
+  questions: [{ question: 'What is a residual?', answer: '' }, { answer: 'no question' }],
+  assignments: ['Read chapter 3', 42, ''],
+});
+
+// Records each request before handing it to the stub, so tests can check what was asked.
+const recording = (model: TextModel) => {
+  const requests: TextRequest[] = [];
+  return { requests, model: { generate: (request: TextRequest) => { requests.push(request); return model.generate(request); } } };
+};
+
+describe('summarizeSession', () => {
+  it('asks for a summary in every session language and parses the reply', async () => {
+    const { requests, model } = recording(createStubTextModel([reply]));
+    const summary = await summarizeSession(session([
+      entry('a', 'วันนี้เราเรียนการถดถอย', '今天我们学习回归'),
+      entry('b', '残差是什么？', 'ค่าคลาดเคลื่อนคืออะไร', { sourceLang: 'Chinese', targetLang: 'Thai', role: 'Student' }),
+    ]), model);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].schema).toBeDefined();
+    expect(requests[0].prompt).toContain('Lecture: Econometrics');
+    expect(requests[0].prompt).toContain('Write one summary in each of: Thai, Chinese.');
+    expect(requests[0].prompt).toContain('วันนี้เราเรียนการถดถอย');
+
+    expect(summary.summaries).toEqual([{ language: 'Thai', text: 'สรุปบทเรียน' }, { language: 'Chinese', text: '课程总结' }]);
+    expect(summary.keyTerms).toEqual([{ term: 'regression', translation: '回归', definition: 'A model of one variable by others.' }]);
+    expect(summary.questions).toEqual([{ question: 'What is a residual?', answer: '' }]);
+    expect(summary.assignments).toEqual(['Read chapter 3']);
+    expect(summary.entryCount).toBe(2);
+  });
+
+  it('refuses an empty session without calling the model', async () => {
+    const { requests, model } = recording(createStubTextModel([reply]));
+    await expect(summarizeSession(session([]), model)).rejects.toThrow('no transcript');
+    expect(requests).toHaveLength(0);
+  });
+
+  it('passes model failures on', async () => {
+    await expect(summarizeSession(session([entry('a', 'สวัสดี', '你好')]), createStubTextModel([]))).rejects.toThrow('no more replies');
+  });
+});
+
+describe('parseSummary', () => {
+  it('rejects a reply without any summary text', () => {
+    expect(() => parseSummary(JSON.stringify({ summaries: [{ language: 'Thai', text: ' ' }] }), 1)).toThrow('no summary text');
+  });
+
+  it('treats missing lists as empty', () => {
+    const summary = parseSummary(JSON.stringify({ summaries: [{ language: 'English', text: 'Notes' }] }), 3);
+    expect(summary).toMatchObject({ keyTerms: [], questions: [], assignments: [], entryCount: 3 });
+  });
+
+  it('throws on malformed JSON', () => {
+    expect(() => parseSummary('not json', 1)).toThrow();
+  });
+});
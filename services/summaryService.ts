@@ -0,0 +1,114 @@
+import { Schema, Type } from '@google/genai';
+import { LanguageId, LectureSession, SessionSummary } from '../types';
+import { LANGUAGE_IDS } from '../constants';
+import { entryTargetLang } from './languageService';
+import { TextModel } from './textModel';
+
+const SUMMARY_INSTRUCTION = `You write study notes for a Master's degree class from its live interpreted transcript.
+Be faithful to the transcript: do not invent content, terms, questions or deadlines that were not said.
+Use formal academic wording. When nothing fits a section, return an empty list for it.`;
+
+const SUMMARY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summaries: {
+      type: Type.ARRAY,
+      description: 'One lecture summary per requested language, each a few paragraphs.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          language: { type: Type.STRING, enum: LANGUAGE_IDS },
+          text: { type: Type.STRING },
+        },
+        required: ['language', 'text'],
+      },
+    },
+    keyTerms: {
+      type: Type.ARRAY,
+      description: 'Key academic terms introduced or used in the lecture.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          term: { type: Type.STRING, description: 'The term as spoken.' },
+          translation: { type: Type.STRING, description: 'The term in the other language of the class.' },
+          definition: { type: Type.STRING, description: 'A one-sentence definition in the language of the term.' },
+        },
+        required: ['term', 'translation', 'definition'],
+      },
+    },
+    questions: {
+      type: Type.ARRAY,
+      description: "Questions students asked, with the professor's answer.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          question: { type: Type.STRING },
+          answer: { type: Type.STRING, description: 'Empty when the question was not answered.' },
+        },
+        required: ['question', 'answer'],
+      },
+    },
+    assignments: {
+      type: Type.ARRAY,
+      description: 'Homework, readings, deadlines or exams that were mentioned.',
+      items: { type: Type.STRING },
+    },
+  },
+  required: ['summaries', 'keyTerms', 'questions', 'assignments'],
+};
+
+/** Languages spoken or translated into during the session, in order of first use. */
+export function sessionLanguages(session: LectureSession): LanguageId[] {
+  return [...new Set(session.entries.flatMap(e => [e.sourceLang, entryTargetLang(e)]))];
+}
+
+function transcriptForPrompt(session: LectureSession): string {
+  return session.entries.map(e => {
+    const time = new Date(e.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const speaker = e.role === 'Professor' ? 'Professor' : 'Student';
+    return `[${time}] ${speaker} (${e.sourceLang}): ${e.text}\n  (${entryTargetLang(e)}): ${e.translation}`;
+  }).join('\n');
+}
+
+const asString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+const asRecord = (value: unknown): Record<string, unknown> =>
+  (typeof value === 'object' && value !== null ? value as Record<string, unknown> : {});
+const isLanguage = (value: unknown): value is LanguageId => LANGUAGE_IDS.includes(value as LanguageId);
+
+/** Checks the model's JSON against the expected shape, dropping anything malformed. */
+export function parseSummary(json: string, entryCount: number): SessionSummary {
+  const data = asRecord(JSON.parse(json) as unknown);
+  const summaries = asArray(data.summaries).map(asRecord)
+    .flatMap(s => (isLanguage(s.language) ? [{ language: s.language, text: asString(s.text) }] : []))
+    .filter(s => s.text);
+  if (summaries.length === 0) throw new Error('Summary response has no summary text');
+  return {
+    generatedAt: Date.now(),
+    summaries,
+    keyTerms: asArray(data.keyTerms).map(asRecord)
+      .map(t => ({ term: asString(t.term), translation: asString(t.translation), definition: asString(t.definition) }))
+      .filter(t => t.term),
+    questions: asArray(data.questions).map(asRecord)
+      .map(q => ({ question: asString(q.question), answer: asString(q.answer) }))
+      .filter(q => q.question),
+    assignments: asArray(data.assignments).map(asString).filter(Boolean),
+    entryCount,
+  };
+}
+
+export async function summarizeSession(session: LectureSession, model: TextModel): Promise<SessionSummary> {
+  if (session.entries.length === 0) throw new Error('The session has no transcript');
+  const languages = sessionLanguages(session);
+  const header = [
+    `Lecture: ${session.name}`,
+    session.courseCode && `Course: ${session.courseCode}`,
+    `Write one summary in each of: ${languages.join(', ')}.`,
+  ].filter(Boolean).join('\n');
+  const reply = await model.generate({
+    systemInstruction: SUMMARY_INSTRUCTION,
+    prompt: `${header}\n\nTRANSCRIPT:\n${transcriptForPrompt(session)}`,
+    schema: SUMMARY_SCHEMA,
+  });
+  return parseSummary(reply, session.entries.length);
+}
@@ -0,0 +1,47 @@
+import { GoogleGenAI, Schema } from '@google/genai';
+import { TEXT_MODEL } from '../constants';
+
+export interface TextRequest {
+  prompt: string;
+  systemInstruction?: string;
+  /** When set, the reply is JSON matching this schema. */
+  schema?: Schema;
+}
+
+/**
+ * Single-shot text generation. Features take this interface rather than the SDK
+ * client so they can run against a canned implementation without network access.
+ */
+export interface TextModel {
+  generate: (request: TextRequest) => Promise<string>;
+}
+
+export function createGeminiTextModel(apiKey: string | undefined): TextModel {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    generate: async ({ prompt, systemInstruction, schema }) => {
+      const response = await ai.models.generateContent({
+        model: TEXT_MODEL,
+        contents: prompt,
+        config: {
+          systemInstruction,
+          ...(schema && { responseMimeType: 'application/json', responseSchema: schema }),
+        },
+      });
+      const text = response.text;
+      if (!text) throw new Error('The model returned no text');
+      return text;
+    },
+  };
+}
+
+/** Replays fixed replies in order, for working on text-model features offline. */
+export function createStubTextModel(replies: string[]): TextModel {
+  let next = 0;
+  return {
+    generate: async () => {
+      if (next >= replies.length) throw new Error('Stub text model has no more replies');
+      return replies[next++];
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import { LanguageId, SpeakerRole, TranscriptEntry } from '../types';
+
+export interface TranscriptFilters {
+  query: string;
+  role: SpeakerRole | 'all';
+  sourceLang: LanguageId | 'all';
+  /** Inclusive time range (epoch ms); undefined means unbounded. */
+  from?: number;
+  to?: number;
+  /** Only entries whose quality check is flagged for review. */
+  flaggedOnly?: boolean;
+}
+
+export const EMPTY_FILTERS: TranscriptFilters = { query: '', role: 'all', sourceLang: 'all' };
+
+export const hasActiveFilters = (filters: TranscriptFilters) =>
+  filters.role !== 'all' || filters.sourceLang !== 'all' || filters.from !== undefined || filters.to !== undefined || !!filters.flaggedOnly;
+
+/** Applies the role, language, time and review filters; the query only highlights and does not hide entries. */
+export function filterTranscript(entries: TranscriptEntry[], filters: TranscriptFilters): TranscriptEntry[] {
+  if (!hasActiveFilters(filters)) return entries;
+  return entries.filter(e =>
+    (filters.role === 'all' || e.role === filters.role) &&
+    (filters.sourceLang === 'all' || e.sourceLang === filters.sourceLang) &&
+    (filters.from === undefined || e.timestamp >= filters.from) &&
+    (filters.to === undefined || e.timestamp <= filters.to) &&
+    (!filters.flaggedOnly || !!e.quality?.flagged));
+}
+
+/**
+ * Case-insensitive [start, end) ranges of `query` in `text`. Lowercasing keeps
+ * string length for Thai, CJK and Latin text, so indices map back onto the original.
+ */
+export function matchRanges(text: string, query: string): [number, number][] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const haystack = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + needle.length)) {
+    ranges.push([at, at + needle.length]);
+  }
+  return ranges;
+}
+
+export function entryMatches(entry: TranscriptEntry, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  return !!needle && (entry.text.toLowerCase().includes(needle) || entry.translation.toLowerCase().includes(needle));
+}
+
+/** A match in a visible entry; `segment` points at the sentence when the entry is segmented. */
+export interface SearchHit {
+  index: number;
+  segment?: number;
+}
+
+/**
+ * One hit per matching sentence of segmented entries, so stepping through results
+ * lands on the sentence rather than the whole turn. Matches that span a sentence
+ * boundary fall back to the entry.
+ */
+export function searchHits(entries: TranscriptEntry[], query: string): SearchHit[] {
+  if (!query.trim()) return [];
+  return entries.flatMap((entry, index) => {
+    if (!entryMatches(entry, query)) return [];
+    const segments = (entry.segments ?? []).flatMap((s, segment) => matchRanges(s.text, query).length || matchRanges(s.translation, query).length ? [{ index, segment }] : []);
+    return segments.length ? segments : [{ index }];
+  });
+}
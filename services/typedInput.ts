@@ -0,0 +1,17 @@
+import { LanguagePairs, RoleMode, SpeakerRole } from '../types';
+import { getTextTranslationInstruction } from '../constants';
+import { resolveSpeakerRole } from './languageService';
+import { TextModel } from './textModel';
+
+/** Speaker of typed text: the active role, or in Auto mode the role whose source language it is written in. */
+export const typedTextRole = (text: string, mode: RoleMode, fallback: SpeakerRole, pairs: LanguagePairs): SpeakerRole =>
+  mode === 'Auto' ? resolveSpeakerRole(text, '', fallback, pairs) : mode;
+
+/** Translates typed text in the role's direction, for use when no Live session is running. */
+export async function translateTypedText(text: string, role: SpeakerRole, pairs: LanguagePairs, glossaryPrompt: string, model: TextModel): Promise<string> {
+  const translation = await model.generate({
+    systemInstruction: getTextTranslationInstruction(role, pairs, glossaryPrompt),
+    prompt: text,
+  });
+  return translation.trim();
+}
@@ -0,0 +1,105 @@
+import { UsageMetadata } from '@google/genai';
+import { UiLocale, UsageCounters, UsageSettings } from '../types';
+import { intlLocale } from './i18n';
+
+export const EMPTY_USAGE: UsageCounters = { audioSentMs: 0, audioReceivedMs: 0, turns: 0, promptTokens: 0, responseTokens: 0, totalTokens: 0 };
+
+// Live audio list prices per million tokens; adjust in the usage panel when they change.
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  inputTokenPrice: 3,
+  outputTokenPrice: 12,
+  currency: 'USD',
+  sessionBudget: 0,
+  warnPercent: 80,
+  autoStop: false,
+};
+
+// Audio is billed at 25 tokens per second in both directions.
+const AUDIO_TOKENS_PER_SECOND = 25;
+
+export type BudgetLevel = 'ok' | 'warn' | 'exceeded';
+
+export function addUsage(a: UsageCounters, b: UsageCounters): UsageCounters {
+  return {
+    audioSentMs: a.audioSentMs + b.audioSentMs,
+    audioReceivedMs: a.audioReceivedMs + b.audioReceivedMs,
+    turns: a.turns + b.turns,
+    promptTokens: a.promptTokens + b.promptTokens,
+    responseTokens: a.responseTokens + b.responseTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+/** Duration of base64 PCM16 mono audio without decoding it. */
+export function pcmDurationMs(base64: string, sampleRate: number): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  const bytes = (base64.length * 3) / 4 - padding;
+  return (bytes / 2 / sampleRate) * 1000;
+}
+
+/**
+ * Accumulates usage between flushes so per-frame counting does not re-render the
+ * app; `take` returns what was counted since the last call, or null if nothing was.
+ */
+export function createUsageMeter() {
+  let pending: UsageCounters = EMPTY_USAGE;
+  let dirty = false;
+  const add = (delta: Partial<UsageCounters>) => {
+    pending = addUsage(pending, { ...EMPTY_USAGE, ...delta });
+    dirty = true;
+  };
+
+  return {
+    addAudioSent: (durationMs: number) => add({ audioSentMs: durationMs }),
+    addAudioReceived: (durationMs: number) => add({ audioReceivedMs: durationMs }),
+    addTurn: () => add({ turns: 1 }),
+    // Each message reports the usage of one model response, so the counts are summed.
+    addTokens: (usage: UsageMetadata) => add({
+      promptTokens: usage.promptTokenCount ?? 0,
+      responseTokens: usage.responseTokenCount ?? 0,
+      totalTokens: usage.totalTokenCount ?? 0,
+    }),
+    take: (): UsageCounters | null => {
+      if (!dirty) return null;
+      const taken = pending;
+      pending = EMPTY_USAGE;
+      dirty = false;
+      return taken;
+    },
+  };
+}
+
+export type UsageMeter = ReturnType<typeof createUsageMeter>;
+
+/**
+ * Estimated cost in the configured currency. Reported token counts are used when the
+ * server sends them; otherwise the streamed audio is converted at the audio token rate.
+ */
+export function estimateCost(usage: UsageCounters, settings: UsageSettings): number {
+  const reported = usage.promptTokens + usage.responseTokens > 0;
+  const input = reported ? usage.promptTokens : (usage.audioSentMs / 1000) * AUDIO_TOKENS_PER_SECOND;
+  const output = reported ? usage.responseTokens : (usage.audioReceivedMs / 1000) * AUDIO_TOKENS_PER_SECOND;
+  return (input * settings.inputTokenPrice + output * settings.outputTokenPrice) / 1_000_000;
+}
+
+export function budgetLevel(cost: number, settings: UsageSettings): BudgetLevel {
+  if (settings.sessionBudget <= 0) return 'ok';
+  if (cost >= settings.sessionBudget) return 'exceeded';
+  return cost >= (settings.sessionBudget * settings.warnPercent) / 100 ? 'warn' : 'ok';
+}
+
+export function formatCost(amount: number, currency: string, locale?: UiLocale): string {
+  try {
+    return new Intl.NumberFormat(intlLocale(locale), { style: 'currency', currency, maximumFractionDigits: 4 }).format(amount);
+  } catch (e) {
+    // Not an ISO 4217 code; show the label as typed.
+    return `${amount.toFixed(4)} ${currency}`;
+  }
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  if (seconds >= 3600) return `${Math.floor(seconds / 3600)}h ${pad(Math.floor(seconds / 60) % 60)}m`;
+  return `${Math.floor(seconds / 60)}m ${pad(seconds % 60)}s`;
+}
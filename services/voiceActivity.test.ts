@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { PcmFrame } from './audioCapture';
+import { createVoiceActivityGate, DEFAULT_VAD_SETTINGS } from './voiceActivity';
+
+const frame = (db: number, zcr = 0.1): PcmFrame => ({ data: '', durationMs: 100, rms: 10 ** (db / 20), zcr });
+
+const record = () => {
+  const events: string[] = [];
+  const gate = createVoiceActivityGate(DEFAULT_VAD_SETTINGS, {
+    send: () => {},
+    onActivityStart: () => events.push('start'),
+    onActivityEnd: () => events.push('end'),
+  });
+  return { events, gate };
+};
+
+describe('createVoiceActivityGate', () => {
+  it('brackets speech between start and end after the hangover', () => {
+    const { events, gate } = record();
+    for (let i = 0; i < 20; i++) gate.push(frame(-70));
+    for (let i = 0; i < 10; i++) gate.push(frame(-30));
+    expect(events).toEqual(['start']);
+    for (let i = 0; i < 6; i++) gate.push(frame(-70));
+    expect(events).toEqual(['start', 'end']);
+  });
+
+  it('keeps a pause-free sentence open', () => {
+    const { events, gate } = record();
+    for (let i = 0; i < 20; i++) gate.push(frame(-70));
+    for (let i = 0; i < 100; i++) gate.push(frame(-30));
+    expect(events).toEqual(['start']);
+  });
+
+  it('ends the activity when steady speech-like noise sets in', () => {
+    const { events, gate } = record();
+    for (let i = 0; i < 20; i++) gate.push(frame(-70));
+    // A fan 30 dB above the room, in the speech zero-crossing band, for a minute.
+    for (let i = 0; i < 600; i++) gate.push(frame(-40));
+    expect(events).toEqual(['start', 'end']);
+  });
+});
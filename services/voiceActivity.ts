@@ -0,0 +1,114 @@
+import { VadSettings } from '../types';
+import { PcmFrame } from './audioCapture';
+
+// Frames kept while silent and sent when speech starts, so word onsets are not clipped.
+const PRE_ROLL_FRAMES = 3;
+const INITIAL_NOISE_FLOOR_DB = -60;
+const MIN_SPEECH_DB = -55;
+// Speech sits in a narrow zero-crossing band; fan hiss is far above it, hum far below.
+const MIN_SPEECH_ZCR = 0.01;
+const MAX_SPEECH_ZCR = 0.35;
+// Time constant of the floor's rise during speech. Slow enough that a lecture barely moves
+// it between pauses, yet steady noise that passes for speech (a fan switching on) is
+// absorbed within seconds and the open activity can end.
+const SPEECH_FLOOR_RISE_MS = 20000;
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = { enabled: true, sensitivity: 0.5, hangoverMs: 600 };
+
+export interface VoiceActivityHandlers {
+  send: (frame: PcmFrame) => void;
+  onActivityStart: () => void;
+  onActivityEnd: () => void;
+}
+
+export interface VoiceActivityGate {
+  push: (frame: PcmFrame) => void;
+  update: (settings: VadSettings) => void;
+  /** Ends an open activity, e.g. when capture stops mid-utterance. */
+  flush: () => void;
+}
+
+const toDb = (rms: number) => 20 * Math.log10(Math.max(rms, 1e-6));
+
+/**
+ * Energy/zero-crossing noise gate over the 16kHz capture frames. The level threshold
+ * floats above an adaptive noise floor; only speech frames (plus pre-roll and the
+ * hangover tail) are forwarded, bracketed by activity start/end signals.
+ */
+export function createVoiceActivityGate(initial: VadSettings, handlers: VoiceActivityHandlers): VoiceActivityGate {
+  let settings = initial;
+  let noiseFloorDb = INITIAL_NOISE_FLOOR_DB;
+  let speaking = false;
+  let silentMs = 0;
+  let preRoll: PcmFrame[] = [];
+
+  const thresholdDb = () => Math.max(MIN_SPEECH_DB, noiseFloorDb + 18 - settings.sensitivity * 12);
+
+  const isSpeechFrame = (frame: PcmFrame) => {
+    const level = toDb(frame.rms);
+    return level > thresholdDb() && frame.zcr >= MIN_SPEECH_ZCR && frame.zcr <= MAX_SPEECH_ZCR;
+  };
+
+  const end = () => {
+    if (!speaking) return;
+    speaking = false;
+    silentMs = 0;
+    handlers.onActivityEnd();
+  };
+
+  return {
+    push: (frame) => {
+      if (!settings.enabled) { handlers.send(frame); return; }
+      const speech = isSpeechFrame(frame);
+      // Track the floor quickly downwards and slowly upwards so speech does not raise it.
+      const level = toDb(frame.rms);
+      const rate = level < noiseFloorDb ? 0.3 : speech ? frame.durationMs / SPEECH_FLOOR_RISE_MS : 0.05;
+      noiseFloorDb += (level - noiseFloorDb) * rate;
+      if (speaking) {
+        handlers.send(frame);
+        silentMs = speech ? 0 : silentMs + frame.durationMs;
+        if (silentMs >= settings.hangoverMs) end();
+      } else if (speech) {
+        speaking = true;
+        silentMs = 0;
+        handlers.onActivityStart();
+        preRoll.forEach(handlers.send);
+        preRoll = [];
+        handlers.send(frame);
+      } else {
+        preRoll.push(frame);
+        if (preRoll.length > PRE_ROLL_FRAMES) preRoll.shift();
+      }
+    },
+    update: (next) => {
+      if (settings.enabled && !next.enabled) end();
+      settings = next;
+    },
+    flush: end,
+  };
+}
+
+export interface PushToTalk {
+  push: (frame: PcmFrame) => void;
+  press: () => void;
+  /** Ends the turn; also used when capture stops or pauses while the key is held. */
+  release: () => void;
+}
+
+/** Forwards frames only between press and release, which bracket one activity. */
+export function createPushToTalk(handlers: VoiceActivityHandlers): PushToTalk {
+  let held = false;
+  return {
+    push: (frame) => { if (held) handlers.send(frame); },
+    press: () => {
+      if (held) return;
+      held = true;
+      handlers.onActivityStart();
+    },
+    release: () => {
+      if (!held) return;
+      held = false;
+      handlers.onActivityEnd();
+    },
+  };
+}
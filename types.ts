@@ -1,14 +1,277 @@
 
+export type SpeakerRole = 'Professor' | 'Student';
+
+/** Role selection for a live session; 'Auto' picks the speaker per turn from the detected language. */
+export type RoleMode = SpeakerRole | 'Auto';
+
+/** Languages known to the registry in constants.ts; values are also stored on entries. */
+export type LanguageId = 'Thai' | 'Chinese' | 'Vietnamese' | 'Japanese' | 'English';
+
+export interface LanguageDefinition {
+  id: LanguageId;
+  label: string;
+  nativeName: string;
+  /**
+   * Characters that identify the language in a transcription. Null for plain Latin
+   * script, which only wins when no other configured language matches.
+   */
+  script: RegExp | null;
+  /** How the translator is told to write this language. */
+  promptName: string;
+  /** Prebuilt Live API voices used when this language is spoken by the translator. */
+  voices: { Male: string; Female: string };
+}
+
+export interface LanguagePair {
+  source: LanguageId;
+  target: LanguageId;
+}
+
+/** Translation direction for each speaker role. */
+export type LanguagePairs = Record<SpeakerRole, LanguagePair>;
+
 export interface TranscriptEntry {
   id: string;
   timestamp: number;
   text: string;
   translation: string;
-  sourceLang: 'Thai' | 'Chinese';
-  role: 'Professor' | 'Student';
+  sourceLang: LanguageId;
+  /** Missing on entries saved before language pairs were configurable (always Thai ↔ Chinese). */
+  targetLang?: LanguageId;
+  role: SpeakerRole;
+  /** Glossary terms whose approved rendering was missing from the translation. */
+  glossaryIssues?: GlossaryIssue[];
+  /** Set when a TurnRecording with this entry's id is stored. */
+  hasAudio?: boolean;
+  /** Entered with the keyboard rather than spoken. */
+  typed?: boolean;
+  /** Earlier versions, oldest first; an entry with revisions has been corrected by hand. */
+  revisions?: EntryRevision[];
+  /** When the first words of the turn were transcribed; `timestamp` is when it ended. */
+  startedAt?: number;
+  /** Sentences of a multi-sentence turn, in order; absent for single-sentence turns. */
+  segments?: TranscriptSegment[];
+  /** Back-translation check of the current text and translation; dropped when either is corrected. */
+  quality?: QualityCheck;
+}
+
+/** Something that changed between the source text and the back-translation. */
+export interface QualityIssue {
+  kind: 'number' | 'name' | 'negation';
+  /** The number or name concerned, or the negation counts as "source → back-translation". */
+  detail: string;
+}
+
+export interface QualityCheck {
+  backTranslation: string;
+  /** 0 (nothing in common) to 1 (identical), from comparing the back-translation to the source text. */
+  score: number;
+  issues: QualityIssue[];
+  /** Needs review: a low score or any issue, until someone marks it as checked. */
+  flagged: boolean;
+  checkedAt: number;
+}
+
+/** One sentence of a turn with the part of the translation aligned to it. */
+export interface TranscriptSegment {
+  text: string;
+  translation: string;
+  startedAt: number;
+}
+
+export interface EntryRevision {
+  text: string;
+  translation: string;
+  /** When this version was replaced. */
+  replacedAt: number;
+  change: 'edit' | 'retranslate';
+}
+
+/** Source speech and synthesized translation of one turn, stored by entry id. */
+export interface TurnRecording {
+  entryId: string;
+  sessionId: string;
+  /** Offsets from the session's createdAt to the first sample of each track. */
+  sourceOffsetMs: number;
+  translationOffsetMs: number;
+  /** PCM16 mono at 16 kHz. */
+  source: ArrayBuffer;
+  /** PCM16 mono at 24 kHz. */
+  translation: ArrayBuffer;
+}
+
+export interface GlossaryTerm {
+  id: string;
+  thai: string;
+  chinese: string;
+  english: string;
+  note?: string;
+}
+
+/** Approved terminology for one course; the empty course code holds the general glossary. */
+export interface CourseGlossary {
+  courseCode: string;
+  terms: GlossaryTerm[];
+  updatedAt: number;
+}
+
+export interface GlossaryIssue {
+  termId: string;
+  found: string;
+  expected: string;
+}
+
+export interface KeyTerm {
+  term: string;
+  translation: string;
+  definition: string;
+}
+
+export interface QuestionAnswer {
+  question: string;
+  answer: string;
+}
+
+/** Post-lecture digest generated from a finished transcript by the text model. */
+export interface SessionSummary {
+  generatedAt: number;
+  /** One summary per language spoken or translated into during the session. */
+  summaries: { language: LanguageId; text: string }[];
+  keyTerms: KeyTerm[];
+  questions: QuestionAnswer[];
+  assignments: string[];
+  /** Number of entries the summary covers; fewer than the session has means it is out of date. */
+  entryCount: number;
 }
 
-export type LanguageMode = 'TH_TO_ZH' | 'ZH_TO_TH';
+/** A named lecture/class run with its transcript, stored in the IndexedDB archive. */
+export interface LectureSession {
+  id: string;
+  name: string;
+  courseCode: string;
+  participants: string[];
+  createdAt: number;
+  updatedAt: number;
+  entries: TranscriptEntry[];
+  summary?: SessionSummary;
+  usage?: UsageCounters;
+}
+
+/** Live API traffic of a session or of all sessions since the counters were reset. */
+export interface UsageCounters {
+  audioSentMs: number;
+  audioReceivedMs: number;
+  turns: number;
+  /** Token counts from `usageMetadata`; zero when the server reports none. */
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageTotals extends UsageCounters {
+  since: number;
+}
+
+export interface UsageSettings {
+  /** Price per million tokens, in `currency`. */
+  inputTokenPrice: number;
+  outputTokenPrice: number;
+  currency: string;
+  /** Estimated cost per session to stay under; 0 disables the budget. */
+  sessionBudget: number;
+  warnPercent: number;
+  /** Stops the live session once the budget is reached. */
+  autoStop: boolean;
+}
+
+export type SessionDetails = Pick<LectureSession, 'name' | 'courseCode' | 'participants'>;
+
+export type ExportFormat = 'txt' | 'srt' | 'vtt' | 'md' | 'json' | 'docx' | 'wav';
+
+/** Which language columns an export or caption view shows. */
+export type LanguageColumns = 'source' | 'translation' | 'both';
+
+/** Language of the app's own interface, independent of the translated languages. */
+export type UiLocale = 'th' | 'zh-CN' | 'en';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: LanguageColumns;
+  /** Inclusive time range (epoch ms); undefined means unbounded. JSON always exports the whole session. */
+  from?: number;
+  to?: number;
+  /** Prepend the session summary to text, Markdown and Word exports when one exists. */
+  includeSummary?: boolean;
+  /** Keep the earlier versions of corrected entries; otherwise only the current text is exported. JSON always keeps them. */
+  includeRevisions?: boolean;
+  /** Locale for the times written into the export; the browser default when omitted. */
+  locale?: UiLocale;
+  /** Add a Pinyin or Thai romanization line under Chinese and Thai text; not used by JSON or audio. */
+  includeRomanization?: boolean;
+}
+
+/** What the main window broadcasts to audience caption views. */
+export interface CaptionSnapshot {
+  isLive: boolean;
+  sessionName: string;
+  currentInput: string;
+  currentOutput: string;
+  recent: TranscriptEntry[];
+}
+
+/** A classroom broadcast room on the caption relay server (server/relay.js). */
+export interface RelayRoom {
+  /** As entered by the host; may be relative to the app's origin. */
+  serverUrl: string;
+  code: string;
+  /** Write access to the room; never shared with students. */
+  hostToken: string;
+}
+
+export interface VadSettings {
+  enabled: boolean;
+  /** 0 (only loud, close speech) to 1 (very quiet speech). */
+  sensitivity: number;
+  /** How long streaming continues after the level drops, so trailing syllables are kept. */
+  hangoverMs: number;
+}
+
+/** Continuous streams through the noise gate; push-to-talk forwards audio only while the talk key is held. */
+export type TalkMode = 'continuous' | 'pushToTalk';
+
+export type ShortcutAction = 'toggleSession' | 'switchRole' | 'pauseInput' | 'pauseOutput' | 'export' | 'pushToTalk' | 'help';
+
+/** Key combination per action, e.g. `Alt+KeyR`, built from `KeyboardEvent.code` so it works in every keyboard layout. */
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export interface InputSettings {
+  /** Empty for the system default microphone. */
+  deviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  /** Linear gain applied before the level meter, the gate and the recorder. */
+  gain: number;
+}
+
+/** Most pressing problem with the captured signal, if any. */
+export type InputHealth = 'ok' | 'clipping' | 'quiet' | 'muted' | 'ended';
+
+export interface PlaybackSettings {
+  /** Show the translation as captions only; no translated audio is played. */
+  captionsOnly: boolean;
+  /** 0 to 1. */
+  volume: number;
+  rate: number;
+  /** Output device id; empty for the system default. */
+  sinkId: string;
+}
+
+/** Columns that show a reading aid (Pinyin, Thai romanization) above Chinese and Thai text. */
+export interface RomanizationSettings {
+  source: boolean;
+  translation: boolean;
+}
 
 export interface AudioConfig {
   sampleRate: number;
@@ -4,10 +4,24 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The caption relay (server/relay.js) is served under the app's own origin, so
+    // students' phones and an HTTPS page reach it without a second address.
+    const proxy = {
+      '/relay': {
+        target: env.RELAY_URL || 'http://localhost:8787',
+        changeOrigin: true,
+        rewrite: (path: string) => path.replace(/^\/relay/, ''),
+      },
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
+      },
+      preview: {
+        host: '0.0.0.0',
+        proxy,
       },
       plugins: [react()],
       define: {